@@ -0,0 +1,90 @@
+import JSZip from "jszip";
+import { saveAs } from "file-saver";
+import type { MattingSettings } from "./matting";
+import type { CropSettings } from "./crop";
+import type { OutputPreset } from "./presets";
+
+// How an output was made, so a result can be reproduced from the manifest
+export interface ArchiveSettings {
+  matting?: MattingSettings;
+  highResolution?: boolean;
+  preset?: OutputPreset;
+  crop?: CropSettings;
+}
+
+export interface ArchiveEntry {
+  original: File;
+  processed: File;
+  edited?: File;
+  modelId?: string;
+  settings?: ArchiveSettings;
+  // Editor settings of the edited file
+  edits?: Record<string, unknown>;
+}
+
+export interface ArchiveOptions {
+  includeEdited?: boolean;
+  includeManifest?: boolean;
+}
+
+interface ManifestFile {
+  original: string;
+  output: string;
+  edited?: string;
+  model?: string;
+  settings?: ArchiveSettings;
+  edits?: Record<string, unknown>;
+}
+
+// Strip the extension and anything a file system would not accept
+function baseName(fileName: string) {
+  const dot = fileName.lastIndexOf(".");
+  const name = dot > 0 ? fileName.slice(0, dot) : fileName;
+  return name.replace(/[\\/:*?"<>|]+/g, "_").trim() || "image";
+}
+
+// Same originals (e.g. two "IMG_0001.jpg" from different folders) get a numeric suffix
+function uniqueName(name: string, used: Set<string>) {
+  let candidate = name;
+  for (let i = 2; used.has(candidate); i++) {
+    candidate = name.replace(/(\.[^.]+)$/, `-${i}$1`);
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+export async function createResultsArchive(entries: ArchiveEntry[], options: ArchiveOptions = {}): Promise<Blob> {
+  const { includeEdited = false, includeManifest = false } = options;
+  const zip = new JSZip();
+  const used = new Set<string>();
+  const manifest: ManifestFile[] = [];
+
+  for (const entry of entries) {
+    const name = baseName(entry.original.name);
+    const extension = entry.processed.name.split(".").pop() || "png";
+    const output = uniqueName(`${name}-bg-blasted.${extension}`, used);
+    zip.file(output, entry.processed);
+
+    const record: ManifestFile = { original: entry.original.name, output, model: entry.modelId, settings: entry.settings };
+    if (includeEdited && entry.edited) {
+      record.edited = uniqueName(`edited/${name}-edited.png`, used);
+      record.edits = entry.edits;
+      zip.file(record.edited, entry.edited);
+    }
+    manifest.push(record);
+  }
+
+  if (includeManifest) {
+    zip.file("manifest.json", JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      files: manifest
+    }, null, 2));
+  }
+
+  return zip.generateAsync({ type: "blob" });
+}
+
+export async function downloadResultsArchive(entries: ArchiveEntry[], options: ArchiveOptions = {}) {
+  const archive = await createResultsArchive(entries, options);
+  saveAs(archive, "cutoutify-results.zip");
+}
@@ -0,0 +1,204 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { Canvas, loadImage } from "@napi-rs/canvas";
+import {
+  DEFAULT_LAYOUT,
+  DEFAULT_SUBJECT_STYLE,
+  adjustBrightness,
+  adjustContrast,
+  adjustExposure,
+  applyPixelEffect,
+  createCompositeSpec,
+  createEffect,
+  renderComposite,
+  type EffectType
+} from "./compositor";
+import { DEFAULT_CROP } from "./crop";
+
+// The pixel effects on a few RGBA pixels. Values written to a Uint8ClampedArray are clamped
+// and rounded half to even, the expected values below account for that.
+
+function pixels(...colors: number[][]) {
+  return Uint8ClampedArray.from(colors.flat());
+}
+
+describe("adjustBrightness", () => {
+  it("scales RGB by value / 50 and clamps", () => {
+    const data = pixels([10, 100, 200, 128]);
+    adjustBrightness(data, 100);
+    expect(data).toEqual(pixels([20, 200, 255, 128]));
+  });
+
+  it("darkens below 50", () => {
+    const data = pixels([10, 101, 200, 7]);
+    adjustBrightness(data, 25);
+    expect(data).toEqual(pixels([5, 50, 100, 7]));
+  });
+});
+
+describe("adjustContrast", () => {
+  it("is neutral at 50", () => {
+    const data = pixels([0, 100, 255, 255]);
+    adjustContrast(data, 50);
+    expect(data).toEqual(pixels([0, 100, 255, 255]));
+  });
+
+  it("spreads values away from mid gray", () => {
+    // Factor 259 * 355 / (255 * 159) ≈ 2.268
+    const data = pixels([128, 100, 200, 64]);
+    adjustContrast(data, 100);
+    expect(data).toEqual(pixels([128, 65, 255, 64]));
+  });
+
+  it("pulls values toward mid gray", () => {
+    // Factor 259 * 155 / (255 * 359) ≈ 0.439
+    const data = pixels([0, 255, 100, 255]);
+    adjustContrast(data, 0);
+    expect(data).toEqual(pixels([72, 184, 116, 255]));
+  });
+});
+
+describe("adjustExposure", () => {
+  it("adds or removes a stop every 25", () => {
+    const data = pixels([60, 120, 200, 90]);
+    adjustExposure(data, 75);
+    expect(data).toEqual(pixels([120, 240, 255, 90]));
+
+    const darker = pixels([60, 121, 200, 90]);
+    adjustExposure(darker, 25);
+    expect(darker).toEqual(pixels([30, 60, 100, 90]));
+  });
+});
+
+describe("applyPixelEffect", () => {
+  const source = pixels([255, 0, 0, 255], [200, 100, 50, 128]);
+
+  it.each<[EffectType, number]>([
+    ["brightness", 50],
+    ["contrast", 50],
+    ["exposure", 50],
+    ["saturation", 50],
+    ["hue", 50],
+    ["grayscale", 0],
+    ["sepia", 0],
+    ["blur", 80]
+  ])("leaves pixels alone for a neutral %s", (type, value) => {
+    const data = source.slice();
+    applyPixelEffect(data, { type, value });
+    expect(data).toEqual(source);
+  });
+
+  it("turns pixels gray with the luma weights of the CSS filter", () => {
+    const data = source.slice();
+    applyPixelEffect(data, { type: "grayscale", value: 100 });
+    // 0.213 * 255 and 0.213 * 200 + 0.715 * 100 + 0.072 * 50
+    expect(data).toEqual(pixels([54, 54, 54, 255], [118, 118, 118, 128]));
+  });
+
+  it("dispatches to the matching adjustment", () => {
+    const data = source.slice();
+    applyPixelEffect(data, { type: "brightness", value: 100 });
+    expect(data).toEqual(pixels([255, 0, 0, 255], [255, 200, 100, 128]));
+  });
+});
+
+describe("createCompositeSpec", () => {
+  const background = new Blob(["png"], { type: "image/png" });
+
+  it("leaves out everything that would not change the result", () => {
+    const disabled = { ...createEffect("sepia"), enabled: false };
+    const brightness = createEffect("brightness");
+    expect(createCompositeSpec({
+      bgType: "color",
+      bgColor: "#ff0000",
+      layout: DEFAULT_LAYOUT,
+      subjectStyle: DEFAULT_SUBJECT_STYLE,
+      crop: DEFAULT_CROP,
+      effects: [disabled, brightness]
+    })).toEqual({
+      background: { type: "color", color: "#ff0000" },
+      effects: [brightness],
+      subject: undefined,
+      subjectStyle: undefined,
+      crop: undefined
+    });
+  });
+
+  it("keeps the placement, style and crop once they are set", () => {
+    const subject = { x: 0.1, y: 0, scale: 2, rotation: 0 };
+    const subjectStyle = { ...DEFAULT_SUBJECT_STYLE, outline: { ...DEFAULT_SUBJECT_STYLE.outline, enabled: true } };
+    const crop = { ...DEFAULT_CROP, enabled: true };
+    const spec = createCompositeSpec({
+      bgType: "image",
+      bgColor: "#ffffff",
+      bgImage: background,
+      layout: { ...DEFAULT_LAYOUT, fit: "tile", subject },
+      subjectStyle,
+      crop,
+      effects: []
+    });
+    expect(spec).toMatchObject({ subject, subjectStyle, crop });
+    expect(spec.background).toEqual({ type: "image", image: background, fit: "tile", transform: DEFAULT_LAYOUT.background });
+  });
+
+  it("falls back to transparent when the background file is missing", () => {
+    expect(createCompositeSpec({ bgType: "image", bgColor: "#ffffff", effects: [] }).background).toEqual({ type: "transparent" });
+    expect(createCompositeSpec({ bgType: "portrait", bgColor: "#ffffff", effects: [] }).background).toEqual({ type: "transparent" });
+  });
+});
+
+// Node has no OffscreenCanvas, @napi-rs/canvas draws in its place. Bitmaps are decoded into a
+// canvas, which every draw call accepts like an ImageBitmap.
+async function toBitmap(source: Blob | Canvas) {
+  const image = source instanceof Blob ? await loadImage(Buffer.from(await source.arrayBuffer())) : source;
+  const bitmap = new Canvas(image.width, image.height);
+  bitmap.getContext("2d").drawImage(image, 0, 0);
+  return Object.assign(bitmap, { close() {} });
+}
+
+// `width` by `height` canvas, `paint` draws on it before it is encoded as PNG
+function png(width: number, height: number, paint: (ctx: ReturnType<Canvas["getContext"]>) => void) {
+  const canvas = new Canvas(width, height);
+  paint(canvas.getContext("2d"));
+  return new Blob([new Uint8Array(canvas.toBuffer("image/png"))], { type: "image/png" });
+}
+
+function pixelAt(canvas: OffscreenCanvas, x: number, y: number) {
+  return Array.from(canvas.getContext("2d")!.getImageData(x, y, 1, 1).data);
+}
+
+describe("renderComposite", () => {
+  // Red subject on the left half, transparent on the right
+  const cutout = png(4, 4, ctx => {
+    ctx.fillStyle = "#ff0000";
+    ctx.fillRect(0, 0, 2, 4);
+  });
+
+  beforeAll(() => {
+    vi.stubGlobal("OffscreenCanvas", Canvas);
+    vi.stubGlobal("createImageBitmap", toBitmap);
+    return () => vi.unstubAllGlobals();
+  });
+
+  it("draws the subject over a colour", async () => {
+    const canvas = await renderComposite(cutout, createCompositeSpec({ bgType: "color", bgColor: "#0000ff", effects: [] }));
+    expect([canvas.width, canvas.height]).toEqual([4, 4]);
+    expect(pixelAt(canvas, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(canvas, 3, 3)).toEqual([0, 0, 255, 255]);
+  });
+
+  it("draws the subject over an image and applies effects to their targets", async () => {
+    const bgImage = png(2, 2, ctx => {
+      ctx.fillStyle = "#008000";
+      ctx.fillRect(0, 0, 2, 2);
+    });
+    const canvas = await renderComposite(cutout, createCompositeSpec({
+      bgType: "image",
+      bgColor: "#ffffff",
+      bgImage,
+      effects: [{ ...createEffect("grayscale", "subject"), value: 100 }]
+    }));
+    // The grayscale of pure red, 0.213 * 255
+    expect(pixelAt(canvas, 0, 0)).toEqual([54, 54, 54, 255]);
+    expect(pixelAt(canvas, 3, 3)).toEqual([0, 128, 0, 255]);
+  });
+});
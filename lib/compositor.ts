@@ -0,0 +1,741 @@
+import { distanceTransform } from "./matting";
+import { cropCanvas, findCropBounds, getCropRect, type CropSettings } from "./crop";
+import { decodeImage } from "./metadata";
+
+// Compositing of a cutout over a new background plus a stack of effects, shared by the
+// result view and the edit modal. The pixel operations are plain functions over RGBA arrays.
+
+// A blob or an object URL pointing at one
+export type ImageSource = Blob | string;
+
+export type BackgroundSpec =
+  | { type: "transparent" }
+  | { type: "color"; color: string }
+  | { type: "gradient" } & GradientSettings
+  | { type: "pattern" } & PatternSettings
+  | { type: "image"; image: Blob; fit: BackgroundFit; transform: LayerTransform }
+  | { type: "portrait"; original: ImageSource } & PortraitSettings;
+
+// Background made of a blurred copy of the original photo
+export interface PortraitSettings {
+  // 0..100, the blur radius grows with the size of the image
+  blur: number;
+  // 0..100, how far the blur ramps up from the subject instead of starting at full strength
+  falloff: number;
+}
+
+export const DEFAULT_PORTRAIT: PortraitSettings = { blur: 50, falloff: 0 };
+
+export interface GradientStop {
+  // 0..1 along the gradient
+  offset: number;
+  color: string;
+}
+
+export interface GradientSettings {
+  kind: "linear" | "radial";
+  // Degrees clockwise from left-to-right, only used by linear gradients
+  angle: number;
+  stops: GradientStop[];
+}
+
+export const DEFAULT_GRADIENT: GradientSettings = {
+  kind: "linear",
+  angle: 90,
+  stops: [{ offset: 0, color: "#a1c4fd" }, { offset: 1, color: "#c2e9fb" }]
+};
+
+export type PatternType = "dots" | "lines" | "grid" | "waves";
+
+export interface PatternSettings {
+  pattern: PatternType;
+  color: string;
+  background: string;
+  // Distance between repeats as a percentage of the shorter side, so exports match the preview
+  spacing: number;
+  // Width of dots and lines as a percentage of the spacing
+  thickness: number;
+}
+
+export const DEFAULT_PATTERN: PatternSettings = {
+  pattern: "dots",
+  color: "#c0c0c0",
+  background: "#ffffff",
+  spacing: 5,
+  thickness: 20
+};
+
+// How a background image is sized to the canvas before its transform is applied
+export type BackgroundFit = "cover" | "contain" | "tile" | "stretch";
+
+// Placement of a layer relative to its fitted position
+export interface LayerTransform {
+  // Offset of the centre as a fraction of the canvas width and height
+  x: number;
+  y: number;
+  // 1 keeps the fitted size
+  scale: number;
+  // Degrees clockwise
+  rotation: number;
+}
+
+export const IDENTITY_TRANSFORM: LayerTransform = { x: 0, y: 0, scale: 1, rotation: 0 };
+
+// Placement of both layers as the editors keep it in their state
+export interface LayoutSettings {
+  fit: BackgroundFit;
+  background: LayerTransform;
+  subject: LayerTransform;
+}
+
+export const DEFAULT_LAYOUT: LayoutSettings = {
+  fit: "cover",
+  background: IDENTITY_TRANSFORM,
+  subject: IDENTITY_TRANSFORM
+};
+
+// Shadows, outline and glow drawn from the subject's alpha. Lengths are percentages of the
+// longer side of the canvas, so exports at full size look like the preview.
+export interface DropShadowSettings {
+  enabled: boolean;
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  color: string;
+  // 0..1
+  opacity: number;
+}
+
+// The silhouette flattened onto the ground under the subject
+export interface ContactShadowSettings {
+  enabled: boolean;
+  // Height of the flattened silhouette as a percentage of the subject's height
+  height: number;
+  blur: number;
+  color: string;
+  opacity: number;
+}
+
+export interface OutlineSettings {
+  enabled: boolean;
+  width: number;
+  color: string;
+  position: "inside" | "outside";
+}
+
+export interface GlowSettings {
+  enabled: boolean;
+  blur: number;
+  color: string;
+  opacity: number;
+}
+
+export interface SubjectStyle {
+  shadow: DropShadowSettings;
+  contactShadow: ContactShadowSettings;
+  outline: OutlineSettings;
+  glow: GlowSettings;
+}
+
+export const DEFAULT_SUBJECT_STYLE: SubjectStyle = {
+  shadow: { enabled: false, offsetX: 1, offsetY: 2, blur: 2, color: "#000000", opacity: 0.5 },
+  contactShadow: { enabled: false, height: 8, blur: 1, color: "#000000", opacity: 0.6 },
+  outline: { enabled: false, width: 1, color: "#ffffff", position: "outside" },
+  glow: { enabled: false, blur: 3, color: "#ffffff", opacity: 0.8 }
+};
+
+export type EffectType =
+  | "blur"
+  | "brightness"
+  | "contrast"
+  | "saturation"
+  | "hue"
+  | "exposure"
+  | "grayscale"
+  | "sepia";
+
+export type EffectTarget = "subject" | "background" | "both";
+
+// Values run 0..100. Adjustments are neutral at 50, blur, grayscale and sepia are off at 0.
+export interface Effect {
+  // Stable key for lists, unique within a stack
+  id: string;
+  type: EffectType;
+  value: number;
+  target: EffectTarget;
+  enabled: boolean;
+}
+
+export interface CompositeSpec {
+  background: BackgroundSpec;
+  // Applied in order to the layers they target, the cutout itself is never modified
+  effects: Effect[];
+  // The subject keeps its place on the canvas when left out
+  subject?: LayerTransform;
+  // Left out when none of its parts is enabled
+  subjectStyle?: SubjectStyle;
+  // Crop the result to the subject, only set when enabled
+  crop?: CropSettings;
+}
+
+export const backgroundFits: { id: BackgroundFit; label: string }[] = [
+  { id: "cover", label: "Cover" },
+  { id: "contain", label: "Contain" },
+  { id: "tile", label: "Tile" },
+  { id: "stretch", label: "Stretch" }
+];
+
+export const patternOptions: { id: PatternType; label: string }[] = [
+  { id: "dots", label: "Dots" },
+  { id: "lines", label: "Lines" },
+  { id: "grid", label: "Grid" },
+  { id: "waves", label: "Waves" }
+];
+
+export const predefinedGradients: GradientSettings[] = [
+  DEFAULT_GRADIENT,
+  { kind: "linear", angle: 135, stops: [{ offset: 0, color: "#f6d365" }, { offset: 1, color: "#fda085" }] },
+  { kind: "linear", angle: 90, stops: [{ offset: 0, color: "#84fab0" }, { offset: 1, color: "#8fd3f4" }] },
+  { kind: "linear", angle: 45, stops: [{ offset: 0, color: "#a18cd1" }, { offset: 1, color: "#fbc2eb" }] },
+  { kind: "radial", angle: 0, stops: [{ offset: 0, color: "#ffffff" }, { offset: 1, color: "#9ca3af" }] },
+  { kind: "radial", angle: 0, stops: [{ offset: 0, color: "#434343" }, { offset: 1, color: "#000000" }] }
+];
+
+export const effectOptions: { id: EffectType; label: string; defaultValue: number }[] = [
+  { id: "blur", label: "Blur", defaultValue: 50 },
+  { id: "brightness", label: "Bright", defaultValue: 50 },
+  { id: "contrast", label: "Contrast", defaultValue: 50 },
+  { id: "saturation", label: "Saturation", defaultValue: 50 },
+  { id: "hue", label: "Hue", defaultValue: 50 },
+  { id: "exposure", label: "Exposure", defaultValue: 50 },
+  { id: "grayscale", label: "Grayscale", defaultValue: 100 },
+  { id: "sepia", label: "Sepia", defaultValue: 100 }
+];
+
+export const effectTargets: { id: EffectTarget; label: string }[] = [
+  { id: "both", label: "Everything" },
+  { id: "subject", label: "Subject" },
+  { id: "background", label: "Background" }
+];
+
+export const predefinedColors = [
+  "#ffffff", "#000000", "#ff0000", "#00ff00", "#0000ff",
+  "#ffff00", "#00ffff", "#ff00ff", "#808080", "#c0c0c0"
+];
+
+let nextEffectId = 1;
+
+export function createEffect(type: EffectType, target: EffectTarget = "both"): Effect {
+  const option = effectOptions.find(effect => effect.id === type);
+  // The timestamp keeps ids unique against stacks restored from an earlier session
+  return { id: `${type}-${Date.now().toString(36)}-${nextEffectId++}`, type, value: option?.defaultValue ?? 50, target, enabled: true };
+}
+
+// Edit settings saved before effects could be stacked carry a single `effect` and `effectValue`
+export function migrateEffects(edits: { effects?: Effect[]; effect?: string; effectValue?: number }): Effect[] {
+  if (edits.effects) return edits.effects;
+  if (!edits.effect || edits.effect === "none") return [];
+  return [{ ...createEffect(edits.effect as EffectType), value: edits.effectValue ?? 50 }];
+}
+
+// The flat settings both editors keep in their state
+export interface CompositeSettings {
+  bgType: string;
+  bgColor: string;
+  bgImage?: Blob | null;
+  original?: ImageSource | null;
+  portrait?: PortraitSettings;
+  gradient?: GradientSettings;
+  pattern?: PatternSettings;
+  layout?: LayoutSettings;
+  subjectStyle?: SubjectStyle;
+  crop?: CropSettings;
+  effects: Effect[];
+}
+
+function createBackgroundSpec(settings: CompositeSettings, layout: LayoutSettings): BackgroundSpec {
+  switch (settings.bgType) {
+    case "color":
+      return { type: "color", color: settings.bgColor };
+    case "gradient":
+      return { type: "gradient", ...(settings.gradient ?? DEFAULT_GRADIENT) };
+    case "pattern":
+      return { type: "pattern", ...(settings.pattern ?? DEFAULT_PATTERN) };
+    case "image":
+      return settings.bgImage
+        ? { type: "image", image: settings.bgImage, fit: layout.fit, transform: layout.background }
+        : { type: "transparent" };
+    case "portrait":
+      return settings.original
+        ? { type: "portrait", original: settings.original, ...(settings.portrait ?? DEFAULT_PORTRAIT) }
+        : { type: "transparent" };
+    default:
+      return { type: "transparent" };
+  }
+}
+
+export function createCompositeSpec(settings: CompositeSettings): CompositeSpec {
+  const layout = settings.layout ?? DEFAULT_LAYOUT;
+  return {
+    background: createBackgroundSpec(settings, layout),
+    effects: settings.effects.filter(effect => effect.enabled),
+    subject: isIdentityTransform(layout.subject) ? undefined : layout.subject,
+    subjectStyle: settings.subjectStyle && hasSubjectStyle(settings.subjectStyle) ? settings.subjectStyle : undefined,
+    crop: settings.crop?.enabled ? settings.crop : undefined
+  };
+}
+
+export function hasSubjectStyle(style: SubjectStyle) {
+  return style.shadow.enabled || style.contactShadow.enabled || style.outline.enabled || style.glow.enabled;
+}
+
+export function isIdentityTransform(transform: LayerTransform) {
+  return transform.x === 0 && transform.y === 0 && transform.scale === 1 && transform.rotation === 0;
+}
+
+export function isIdentitySpec(spec: CompositeSpec) {
+  return spec.background.type === "transparent"
+    && spec.effects.every(effect => !effect.enabled)
+    && (!spec.subject || isIdentityTransform(spec.subject))
+    && (!spec.subjectStyle || !hasSubjectStyle(spec.subjectStyle))
+    && !spec.crop?.enabled;
+}
+
+// Scale RGB by value / 50 in place, alpha is left alone
+export function adjustBrightness(data: Uint8ClampedArray, value: number) {
+  const factor = value / 50;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = Math.min(255, data[i] * factor);
+    data[i + 1] = Math.min(255, data[i + 1] * factor);
+    data[i + 2] = Math.min(255, data[i + 2] * factor);
+  }
+}
+
+// Standard contrast curve around mid gray in place, 0..100 maps to -100..+100 with 50 neutral
+export function adjustContrast(data: Uint8ClampedArray, value: number) {
+  const amount = (value - 50) * 2;
+  const factor = (259 * (amount + 255)) / (255 * (259 - amount));
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = Math.max(0, Math.min(255, factor * (data[i] - 128) + 128));
+    data[i + 1] = Math.max(0, Math.min(255, factor * (data[i + 1] - 128) + 128));
+    data[i + 2] = Math.max(0, Math.min(255, factor * (data[i + 2] - 128) + 128));
+  }
+}
+
+// 3x3 matrix on RGB in place, rows are the output channels
+export function applyColorMatrix(data: Uint8ClampedArray, m: number[]) {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    data[i] = m[0] * r + m[1] * g + m[2] * b;
+    data[i + 1] = m[3] * r + m[4] * g + m[5] * b;
+    data[i + 2] = m[6] * r + m[7] * g + m[8] * b;
+  }
+}
+
+// The matrices below are the ones of the CSS filter functions of the same name
+function saturationMatrix(amount: number) {
+  return [
+    0.213 + 0.787 * amount, 0.715 - 0.715 * amount, 0.072 - 0.072 * amount,
+    0.213 - 0.213 * amount, 0.715 + 0.285 * amount, 0.072 - 0.072 * amount,
+    0.213 - 0.213 * amount, 0.715 - 0.715 * amount, 0.072 + 0.928 * amount
+  ];
+}
+
+function hueMatrix(degrees: number) {
+  const cos = Math.cos((degrees * Math.PI) / 180);
+  const sin = Math.sin((degrees * Math.PI) / 180);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072
+  ];
+}
+
+function sepiaMatrix(amount: number) {
+  return [
+    0.393 + 0.607 * (1 - amount), 0.769 - 0.769 * (1 - amount), 0.189 - 0.189 * (1 - amount),
+    0.349 - 0.349 * (1 - amount), 0.686 + 0.314 * (1 - amount), 0.168 - 0.168 * (1 - amount),
+    0.272 - 0.272 * (1 - amount), 0.534 - 0.534 * (1 - amount), 0.131 + 0.869 * (1 - amount)
+  ];
+}
+
+// 0..100 maps to -2..+2 stops with 50 neutral
+export function adjustExposure(data: Uint8ClampedArray, value: number) {
+  const factor = 2 ** ((value - 50) / 25);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] *= factor;
+    data[i + 1] *= factor;
+    data[i + 2] *= factor;
+  }
+}
+
+// Run a pixel effect on RGBA data in place
+export function applyPixelEffect(data: Uint8ClampedArray, effect: Pick<Effect, "type" | "value">) {
+  switch (effect.type) {
+    case "brightness":
+      return adjustBrightness(data, effect.value);
+    case "contrast":
+      return adjustContrast(data, effect.value);
+    case "exposure":
+      return adjustExposure(data, effect.value);
+    case "saturation":
+      return applyColorMatrix(data, saturationMatrix(effect.value / 50));
+    case "hue":
+      return applyColorMatrix(data, hueMatrix((effect.value - 50) * 3.6));
+    case "grayscale":
+      return applyColorMatrix(data, saturationMatrix(1 - effect.value / 100));
+    case "sepia":
+      return applyColorMatrix(data, sepiaMatrix(effect.value / 100));
+    case "blur":
+      // Needs the canvas, see applyEffect
+      return;
+  }
+}
+
+function get2dContext(canvas: OffscreenCanvas) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2d context");
+  return ctx;
+}
+
+function applyEffect(canvas: OffscreenCanvas, effect: Effect) {
+  const ctx = get2dContext(canvas);
+  if (effect.type === "blur") {
+    const copy = new OffscreenCanvas(canvas.width, canvas.height);
+    get2dContext(copy).drawImage(canvas, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.filter = `blur(${effect.value / 10}px)`;
+    ctx.drawImage(copy, 0, 0);
+    ctx.filter = "none";
+    return;
+  }
+
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyPixelEffect(pixels.data, effect);
+  ctx.putImageData(pixels, 0, 0);
+}
+
+function drawGradientBackground(ctx: OffscreenCanvasRenderingContext2D, { kind, angle, stops }: GradientSettings) {
+  const { width, height } = ctx.canvas;
+  const cx = width / 2;
+  const cy = height / 2;
+  let gradient: CanvasGradient;
+  if (kind === "radial") {
+    gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, Math.hypot(width, height) / 2);
+  } else {
+    // Long enough that the first and last stop land exactly on the canvas corners
+    const radians = (angle * Math.PI) / 180;
+    const dx = Math.cos(radians);
+    const dy = Math.sin(radians);
+    const half = (Math.abs(dx) * width + Math.abs(dy) * height) / 2;
+    gradient = ctx.createLinearGradient(cx - dx * half, cy - dy * half, cx + dx * half, cy + dy * half);
+  }
+  for (const stop of [...stops].sort((a, b) => a.offset - b.offset)) {
+    gradient.addColorStop(Math.max(0, Math.min(1, stop.offset)), stop.color);
+  }
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+}
+
+// Patterns are drawn as vector shapes at the size of the canvas instead of from a tile, so
+// they stay sharp at any output resolution
+function drawPatternBackground(ctx: OffscreenCanvasRenderingContext2D, settings: PatternSettings) {
+  const { width, height } = ctx.canvas;
+  const spacing = Math.max(2, (settings.spacing / 100) * Math.min(width, height));
+  const thickness = Math.max(1, (settings.thickness / 100) * spacing);
+
+  ctx.save();
+  ctx.fillStyle = settings.background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = settings.color;
+  ctx.strokeStyle = settings.color;
+  ctx.lineWidth = thickness;
+  ctx.beginPath();
+  switch (settings.pattern) {
+    case "dots":
+      for (let y = spacing / 2; y < height + thickness; y += spacing) {
+        for (let x = spacing / 2; x < width + thickness; x += spacing) {
+          ctx.moveTo(x + thickness / 2, y);
+          ctx.arc(x, y, thickness / 2, 0, 2 * Math.PI);
+        }
+      }
+      ctx.fill();
+      break;
+    case "lines":
+      // Diagonal stripes, spaced `spacing` apart measured along the x axis
+      for (let x = -height; x < width + spacing; x += spacing) {
+        ctx.moveTo(x, height);
+        ctx.lineTo(x + height, 0);
+      }
+      ctx.stroke();
+      break;
+    case "grid":
+      for (let x = spacing / 2; x < width; x += spacing) {
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+      }
+      for (let y = spacing / 2; y < height; y += spacing) {
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+      }
+      ctx.stroke();
+      break;
+    case "waves": {
+      const amplitude = spacing / 4;
+      const step = Math.max(1, spacing / 16);
+      for (let y = 0; y < height + spacing; y += spacing) {
+        ctx.moveTo(0, y);
+        for (let x = step; x <= width + step; x += step) {
+          ctx.lineTo(x, y + amplitude * Math.sin((x / spacing) * Math.PI));
+        }
+      }
+      ctx.stroke();
+      break;
+    }
+  }
+  ctx.restore();
+}
+
+// Move the origin to the transformed centre of the canvas, callers draw centred on (0, 0)
+function applyTransform(ctx: OffscreenCanvasRenderingContext2D, transform: LayerTransform) {
+  const { width, height } = ctx.canvas;
+  ctx.translate(width / 2 + transform.x * width, height / 2 + transform.y * height);
+  ctx.rotate((transform.rotation * Math.PI) / 180);
+  ctx.scale(transform.scale, transform.scale);
+}
+
+async function drawImageBackground(
+  ctx: OffscreenCanvasRenderingContext2D,
+  { image, fit, transform }: Extract<BackgroundSpec, { type: "image" }>
+) {
+  const { width, height } = ctx.canvas;
+  const bitmap = await decodeImage(image);
+  ctx.save();
+  applyTransform(ctx, transform);
+  if (fit === "tile") {
+    const pattern = ctx.createPattern(bitmap, "repeat");
+    if (pattern) {
+      // Tiles start at the centre so zooming and rotating pivot around it. The filled area
+      // has to cover the canvas corners whatever the rotation and down to the smallest zoom.
+      pattern.setTransform(new DOMMatrix().translate(-bitmap.width / 2, -bitmap.height / 2));
+      const reach = Math.hypot(width, height) * (1 + Math.hypot(transform.x, transform.y)) / transform.scale;
+      ctx.fillStyle = pattern;
+      ctx.fillRect(-reach, -reach, 2 * reach, 2 * reach);
+    }
+  } else {
+    let drawWidth = width;
+    let drawHeight = height;
+    if (fit !== "stretch") {
+      const ratio = fit === "cover"
+        ? Math.max(width / bitmap.width, height / bitmap.height)
+        : Math.min(width / bitmap.width, height / bitmap.height);
+      drawWidth = bitmap.width * ratio;
+      drawHeight = bitmap.height * ratio;
+    }
+    ctx.drawImage(bitmap, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+  }
+  ctx.restore();
+  bitmap.close();
+}
+
+async function loadBitmap(source: ImageSource) {
+  return decodeImage(typeof source === "string" ? await (await fetch(source)).blob() : source);
+}
+
+// Blur radius at full strength, relative to the longer side so the look does not depend on resolution
+const PORTRAIT_MAX_BLUR = 0.03;
+// Share of the full blur right next to the subject when the falloff is on
+const PORTRAIT_NEAR_BLUR = 0.2;
+
+// Blurred original photo, sharper close to the subject when `falloff` is set. The proximity
+// to the subject comes from blurring the cutout's alpha, a cheap stand-in for a depth map.
+async function drawPortraitBackground(
+  ctx: OffscreenCanvasRenderingContext2D,
+  subject: OffscreenCanvas,
+  { original, blur, falloff }: Extract<BackgroundSpec, { type: "portrait" }>
+) {
+  const { width, height } = subject;
+  const photo = await loadBitmap(original);
+  const radius = (blur / 100) * PORTRAIT_MAX_BLUR * Math.max(width, height);
+
+  // The blur fades out towards the canvas border, the sharp copy underneath keeps it opaque
+  ctx.drawImage(photo, 0, 0, width, height);
+  ctx.filter = `blur(${radius}px)`;
+  ctx.drawImage(photo, 0, 0, width, height);
+  ctx.filter = "none";
+
+  if (falloff > 0) {
+    const near = new OffscreenCanvas(width, height);
+    const nearCtx = get2dContext(near);
+    nearCtx.filter = `blur(${radius * PORTRAIT_NEAR_BLUR}px)`;
+    nearCtx.drawImage(photo, 0, 0, width, height);
+    // Keep the lightly blurred copy only around the subject, fading out with distance
+    nearCtx.filter = `blur(${(falloff / 100) * 0.25 * Math.max(width, height)}px)`;
+    nearCtx.globalCompositeOperation = "destination-in";
+    nearCtx.drawImage(subject, 0, 0);
+    ctx.drawImage(near, 0, 0);
+  }
+  photo.close();
+}
+
+// Copy of the layer in a single colour, keeping its alpha
+function silhouette(layer: OffscreenCanvas, color: string) {
+  const canvas = new OffscreenCanvas(layer.width, layer.height);
+  const ctx = get2dContext(canvas);
+  ctx.drawImage(layer, 0, 0);
+  ctx.globalCompositeOperation = "source-in";
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+function parseColor(color: string): [number, number, number] {
+  const hex = color.replace("#", "");
+  const full = hex.length === 3 ? hex.split("").map(c => c + c).join("") : hex;
+  const value = parseInt(full, 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// Band of `width` pixels along the edge of the subject, outside or inside it. Coverage comes from
+// the exact distance to the edge, so the band has the same width everywhere and soft ends.
+function outlineLayer(alpha: Uint8Array, width: number, height: number, settings: OutlineSettings, size: number) {
+  const band = (settings.width / 100) * size;
+  const inside = settings.position === "inside";
+  const distance = distanceTransform(alpha, width, height, !inside);
+  const [r, g, b] = parseColor(settings.color);
+  const pixels = new ImageData(width, height);
+  for (let i = 0; i < alpha.length; i++) {
+    const coverage = Math.max(0, Math.min(1, band + 0.5 - distance[i]));
+    if (coverage === 0) continue;
+    pixels.data[4 * i] = r;
+    pixels.data[4 * i + 1] = g;
+    pixels.data[4 * i + 2] = b;
+    // Inside the band never reaches past the subject's own soft edge
+    pixels.data[4 * i + 3] = Math.round(255 * coverage * (inside ? alpha[i] / 255 : 1));
+  }
+  const canvas = new OffscreenCanvas(width, height);
+  get2dContext(canvas).putImageData(pixels, 0, 0);
+  return canvas;
+}
+
+// Lowest row with any visible subject, -1 for an empty layer
+function bottomEdge(alpha: Uint8Array, width: number) {
+  for (let i = alpha.length - 1; i >= 0; i--) {
+    if (alpha[i] > 0) return Math.floor(i / width);
+  }
+  return -1;
+}
+
+function topEdge(alpha: Uint8Array, width: number) {
+  const i = alpha.findIndex(value => value > 0);
+  return i < 0 ? -1 : Math.floor(i / width);
+}
+
+// Draw the placed subject with its shadows, glow and outline. Everything is derived from the
+// alpha of `placed`, which already has the subject's transform and effects applied.
+function drawStyledSubject(ctx: OffscreenCanvasRenderingContext2D, placed: OffscreenCanvas, style: SubjectStyle) {
+  const { width, height } = placed;
+  const size = Math.max(width, height);
+  const rgba = get2dContext(placed).getImageData(0, 0, width, height).data;
+  const alpha = new Uint8Array(width * height);
+  for (let i = 0; i < alpha.length; i++) alpha[i] = rgba[4 * i + 3];
+  const px = (percent: number) => (percent / 100) * size;
+
+  const { contactShadow, shadow, glow, outline } = style;
+  if (contactShadow.enabled) {
+    const bottom = bottomEdge(alpha, width);
+    const top = topEdge(alpha, width);
+    if (bottom >= 0) {
+      // Squash the silhouette onto its lowest row, then scale it back to the chosen height
+      const squash = Math.max(0.01, contactShadow.height / 100);
+      ctx.save();
+      ctx.globalAlpha = contactShadow.opacity;
+      ctx.filter = `blur(${px(contactShadow.blur)}px)`;
+      ctx.translate(0, bottom + (bottom - top) * squash * 0.5);
+      ctx.scale(1, squash);
+      ctx.translate(0, -bottom);
+      ctx.drawImage(silhouette(placed, contactShadow.color), 0, 0);
+      ctx.restore();
+    }
+  }
+  if (shadow.enabled) {
+    ctx.save();
+    ctx.globalAlpha = shadow.opacity;
+    ctx.filter = `blur(${px(shadow.blur)}px)`;
+    ctx.drawImage(silhouette(placed, shadow.color), px(shadow.offsetX), px(shadow.offsetY));
+    ctx.restore();
+  }
+  if (glow.enabled) {
+    ctx.save();
+    ctx.globalAlpha = glow.opacity;
+    ctx.filter = `blur(${px(glow.blur)}px)`;
+    const tinted = silhouette(placed, glow.color);
+    // A single blurred copy fades too quickly next to the edge, a second one makes it read as light
+    ctx.drawImage(tinted, 0, 0);
+    ctx.drawImage(tinted, 0, 0);
+    ctx.restore();
+  }
+  const band = outline.enabled && outline.width > 0 ? outlineLayer(alpha, width, height, outline, size) : null;
+  if (band && outline.position === "outside") ctx.drawImage(band, 0, 0);
+  ctx.drawImage(placed, 0, 0);
+  if (band && outline.position === "inside") ctx.drawImage(band, 0, 0);
+}
+
+// Draw the cutout over the background at the size of the cutout. Subject and background
+// are separate layers until the end so every effect only touches the layers it targets.
+export async function renderComposite(cutout: Blob | OffscreenCanvas, spec: CompositeSpec): Promise<OffscreenCanvas> {
+  const bitmap = await createImageBitmap(cutout);
+  const subject = new OffscreenCanvas(bitmap.width, bitmap.height);
+  get2dContext(subject).drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const canvas = new OffscreenCanvas(subject.width, subject.height);
+  const ctx = get2dContext(canvas);
+  if (spec.background.type === "color") {
+    ctx.fillStyle = spec.background.color;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  } else if (spec.background.type === "gradient") {
+    drawGradientBackground(ctx, spec.background);
+  } else if (spec.background.type === "pattern") {
+    drawPatternBackground(ctx, spec.background);
+  } else if (spec.background.type === "image") {
+    await drawImageBackground(ctx, spec.background);
+  } else if (spec.background.type === "portrait") {
+    await drawPortraitBackground(ctx, subject, spec.background);
+  }
+
+  for (const effect of spec.effects) {
+    if (!effect.enabled) continue;
+    if (effect.target !== "background") applyEffect(subject, effect);
+    if (effect.target !== "subject" && spec.background.type !== "transparent") applyEffect(canvas, effect);
+  }
+
+  let placed = subject;
+  if (spec.subject) {
+    placed = new OffscreenCanvas(canvas.width, canvas.height);
+    const placedCtx = get2dContext(placed);
+    applyTransform(placedCtx, spec.subject);
+    placedCtx.drawImage(subject, -subject.width / 2, -subject.height / 2);
+  }
+  if (spec.subjectStyle) {
+    drawStyledSubject(ctx, placed, spec.subjectStyle);
+  } else {
+    ctx.drawImage(placed, 0, 0);
+  }
+
+  if (spec.crop?.enabled) {
+    const bounds = findCropBounds(placed);
+    if (bounds) return cropCanvas(canvas, getCropRect(bounds, spec.crop));
+  }
+  return canvas;
+}
+
+export async function compositeToBitmap(cutout: Blob, spec: CompositeSpec): Promise<ImageBitmap> {
+  return (await renderComposite(cutout, spec)).transferToImageBitmap();
+}
+
+export async function compositeToBlob(cutout: Blob, spec: CompositeSpec): Promise<Blob> {
+  return (await renderComposite(cutout, spec)).convertToBlob({ type: "image/png" });
+}
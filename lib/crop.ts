@@ -0,0 +1,66 @@
+import { findSubjectBounds, type DirtyRect } from "./mask";
+
+// Cropping of results to the subject, so a small subject on a large photo does not come out
+// surrounded by empty canvas.
+
+export interface CropSettings {
+  enabled: boolean;
+  padding: number;
+  // Pixels, or a percentage of the subject's longer side
+  unit: "px" | "percent";
+  // Width / height of the output with the subject centred on it, 0 keeps the subject's shape
+  aspect: number;
+}
+
+export const DEFAULT_CROP: CropSettings = { enabled: false, padding: 5, unit: "percent", aspect: 0 };
+
+export const aspectOptions: { value: number; label: string }[] = [
+  { value: 0, label: "Fit subject" },
+  { value: 1, label: "1:1" },
+  { value: 4 / 5, label: "4:5" },
+  { value: 3 / 4, label: "3:4" },
+  { value: 4 / 3, label: "4:3" },
+  { value: 16 / 9, label: "16:9" },
+  { value: 9 / 16, label: "9:16" }
+];
+
+// Model output keeps a faint haze of near-zero alpha far from the subject, which would
+// otherwise stretch the bounds to the whole canvas
+const CROP_ALPHA_THRESHOLD = 8;
+
+// Bounds of the subject drawn on the canvas, null when the canvas is empty
+export function findCropBounds(canvas: OffscreenCanvas): DirtyRect | null {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2d context");
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  return findSubjectBounds(pixels, canvas.width, canvas.height, CROP_ALPHA_THRESHOLD);
+}
+
+// Area to keep around the subject bounds. It may reach past the canvas, that part stays transparent.
+export function getCropRect(bounds: DirtyRect, settings: CropSettings): DirtyRect {
+  const padding = settings.unit === "px"
+    ? settings.padding
+    : (settings.padding / 100) * Math.max(bounds.width, bounds.height);
+  let width = bounds.width + 2 * padding;
+  let height = bounds.height + 2 * padding;
+  if (settings.aspect > 0) {
+    if (width / height < settings.aspect) width = height * settings.aspect;
+    else height = width / settings.aspect;
+  }
+  width = Math.max(1, Math.round(width));
+  height = Math.max(1, Math.round(height));
+  return {
+    x: Math.round(bounds.x + bounds.width / 2 - width / 2),
+    y: Math.round(bounds.y + bounds.height / 2 - height / 2),
+    width,
+    height
+  };
+}
+
+export function cropCanvas(canvas: OffscreenCanvas, rect: DirtyRect): OffscreenCanvas {
+  const cropped = new OffscreenCanvas(rect.width, rect.height);
+  const ctx = cropped.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2d context");
+  ctx.drawImage(canvas, -rect.x, -rect.y);
+  return cropped;
+}
@@ -0,0 +1,191 @@
+import Dexie, { type EntityTable } from "dexie";
+import type { AlphaMask } from "./process";
+import type { MattingSettings } from "./matting";
+import type { OutputPreset } from "./presets";
+
+// Local persistence for the gallery. Everything stays in the browser's IndexedDB,
+// nothing is uploaded.
+
+export interface StoredImage {
+  id: number;
+  createdAt: number;
+  original: File;
+  result?: File;
+  // Raw matte from the model (plus brush edits), post-processing is kept apart in `matting`
+  mask?: AlphaMask;
+  matting?: MattingSettings;
+  edited?: File;
+  background?: File;
+  edits?: Record<string, unknown>;
+  modelId?: string;
+  // Whether the edges were refined at full resolution
+  highResolution?: boolean;
+  size: number;
+}
+
+export type StoredView = "upload" | "result" | "batch";
+
+export interface StoredSession {
+  key: "current";
+  view: StoredView;
+  imageIds: number[];
+  activeImageId: number | null;
+}
+
+// Upper bound for stored images, further limited by what the browser grants us
+export const STORAGE_LIMIT_BYTES = 512 * 1024 * 1024;
+
+const db = new Dexie("cutoutify") as Dexie & {
+  images: EntityTable<StoredImage, "id">;
+  session: EntityTable<StoredSession, "key">;
+  presets: EntityTable<OutputPreset, "id">;
+};
+
+db.version(1).stores({
+  images: "id, createdAt",
+  session: "key"
+});
+
+// Custom output presets, the built-in ones live in lib/presets.ts
+db.version(2).stores({
+  presets: "id, name"
+});
+
+// Sizes are read from an index, totals never load the images themselves
+db.version(3).stores({
+  images: "id, createdAt, [createdAt+size]"
+});
+
+// Id and size of every image, oldest first, read from the index alone
+async function indexedSizes() {
+  const [keys, ids] = await db.transaction("r", db.images, () => Promise.all([
+    db.images.orderBy("[createdAt+size]").keys(),
+    db.images.orderBy("[createdAt+size]").primaryKeys()
+  ]));
+  return (keys as unknown as [number, number][]).map(([, size], i) => ({ id: ids[i], size }));
+}
+
+function sizeOf(image: Partial<Omit<StoredImage, "size">>) {
+  return [image.original, image.result, image.edited, image.background]
+    .reduce((total, blob) => total + (blob?.size ?? 0), image.mask?.data.byteLength ?? 0);
+}
+
+async function getStorageLimit() {
+  try {
+    const estimate = await navigator.storage?.estimate();
+    if (estimate?.quota) {
+      return Math.min(STORAGE_LIMIT_BYTES, estimate.quota * 0.8);
+    }
+  } catch (error) {
+    console.warn("Unable to estimate storage quota:", error);
+  }
+  return STORAGE_LIMIT_BYTES;
+}
+
+// Evict the oldest images until the total stays under the limit. The most recent
+// image is always kept, even if it alone is over the limit.
+export async function enforceStorageQuota(limit?: number) {
+  const maxBytes = limit ?? await getStorageLimit();
+  const images = await indexedSizes();
+  let total = images.reduce((sum, image) => sum + image.size, 0);
+  const evicted: number[] = [];
+
+  for (const image of images.slice(0, -1)) {
+    if (total <= maxBytes) break;
+    evicted.push(image.id);
+    total -= image.size;
+  }
+  if (evicted.length > 0) {
+    // The session must not point at images that are gone
+    await db.transaction("rw", db.images, db.session, async () => {
+      await db.images.bulkDelete(evicted);
+      const session = await db.session.get("current");
+      if (!session) return;
+      await db.session.put({
+        ...session,
+        imageIds: session.imageIds.filter(id => !evicted.includes(id)),
+        activeImageId: session.activeImageId !== null && evicted.includes(session.activeImageId) ? null : session.activeImageId
+      });
+    });
+  }
+  return evicted;
+}
+
+// Run a write of about `size` new bytes. When the browser runs out of room before our own
+// limit does, make space and try once more. Returns the ids of the images evicted for it.
+async function writeWithinQuota(write: () => Promise<unknown>, size: number) {
+  const evicted: number[] = [];
+  try {
+    await write();
+  } catch (error) {
+    if (!(error instanceof Dexie.QuotaExceededError)) throw error;
+    const { bytes } = await getHistorySummary();
+    evicted.push(...await enforceStorageQuota(Math.max(0, bytes - size)));
+    await write();
+  }
+  evicted.push(...await enforceStorageQuota());
+  return evicted;
+}
+
+export async function saveImage(id: number, original: File) {
+  const image = { id, original, createdAt: Date.now() };
+  const record = { ...image, size: sizeOf(image) };
+  return writeWithinQuota(() => db.images.put(record), record.size);
+}
+
+// Read and write in one transaction, so updates of the same image that overlap (a result
+// arriving while edits are saved) cannot drop each other's changes
+export async function updateStoredImage(id: number, changes: Partial<Omit<StoredImage, "id" | "size">>) {
+  return writeWithinQuota(() => db.transaction("rw", db.images, async () => {
+    const existing = await db.images.get(id);
+    if (!existing) return;
+    const image = { ...existing, ...changes };
+    await db.images.put({ ...image, size: sizeOf(image) });
+  }), sizeOf(changes));
+}
+
+export async function loadImages(ids?: number[]) {
+  const images = await db.images.orderBy("createdAt").toArray();
+  return ids ? images.filter(image => ids.includes(image.id)) : images;
+}
+
+export async function deleteStoredImage(id: number) {
+  await db.images.delete(id);
+}
+
+// Also usable as a live query, it only reads the images table
+export async function getHistorySummary() {
+  const images = await indexedSizes();
+  return {
+    count: images.length,
+    bytes: images.reduce((sum, image) => sum + image.size, 0)
+  };
+}
+
+export async function clearHistory() {
+  await db.transaction("rw", db.images, db.session, async () => {
+    await db.images.clear();
+    await db.session.clear();
+  });
+}
+
+export async function saveSession(session: Omit<StoredSession, "key">) {
+  await db.session.put({ key: "current", ...session });
+}
+
+export async function loadSession() {
+  return db.session.get("current");
+}
+
+// Also usable as a live query
+export async function getCustomPresets() {
+  return db.presets.orderBy("name").toArray();
+}
+
+export async function saveCustomPresets(presets: OutputPreset[]) {
+  await db.presets.bulkPut(presets);
+}
+
+export async function deleteCustomPreset(id: string) {
+  await db.presets.delete(id);
+}
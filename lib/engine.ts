@@ -0,0 +1,150 @@
+import type { AlphaMask, ModelEvent, ModelInfo, ProcessingStage, SegmentationResult } from "./process";
+import type { EngineRequest, EngineResponse } from "./protocol";
+import { decodeImage } from "./metadata";
+import { createProcessingError, InferenceError, ModelLoadError, toProcessingError } from "./errors";
+
+// Main-thread side of the segmentation worker. Keeps the page responsive while the
+// processor, the forward pass and the alpha loop run in lib/worker.ts.
+
+export interface RemoveBackgroundOptions {
+  signal?: AbortSignal;
+  onProgress?: (stage: ProcessingStage, progress: number) => void;
+  // Refine the edges of large photos at native resolution, see lib/process.ts
+  highResolution?: boolean;
+}
+
+interface PendingRequest {
+  resolve: (message: EngineResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: RemoveBackgroundOptions["onProgress"];
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingRequest>();
+const modelListeners = new Set<(event: ModelEvent) => void>();
+
+// Downloads, compilation and inference timings of the model running in the worker
+export function onModelEvent(listener: (event: ModelEvent) => void) {
+  modelListeners.add(listener);
+  return () => {
+    modelListeners.delete(listener);
+  };
+}
+
+function getWorker() {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("./worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (event: MessageEvent<EngineResponse>) => {
+    const message = event.data;
+    if (message.type === "event") {
+      modelListeners.forEach(listener => listener(message.event));
+      return;
+    }
+    const request = pending.get(message.id);
+    if (!request) return;
+
+    if (message.type === "progress") {
+      request.onProgress?.(message.stage, message.progress);
+      return;
+    }
+    pending.delete(message.id);
+    if (message.type === "error") {
+      request.reject(createProcessingError(message.code, message.message));
+    } else if (message.type === "cancelled") {
+      request.reject(new DOMException("Processing was cancelled", "AbortError"));
+    } else {
+      request.resolve(message);
+    }
+  };
+  worker.onerror = (event) => {
+    // A crashing worker is most often WebAssembly running out of memory
+    const error = toProcessingError(new Error(event.message || "Background removal worker crashed"), "inference");
+    pending.forEach((request) => request.reject(error));
+    pending.clear();
+    terminateEngine();
+  };
+  return worker;
+}
+
+function send(
+  message: EngineRequest,
+  transfer: Transferable[] = [],
+  onProgress?: RemoveBackgroundOptions["onProgress"]
+) {
+  return new Promise<EngineResponse>((resolve, reject) => {
+    pending.set(message.id, { resolve, reject, onProgress });
+    getWorker().postMessage(message, transfer);
+  });
+}
+
+// Load the model inside the worker. Safe to call repeatedly, the worker only loads once.
+export async function initializeEngine(modelId?: string): Promise<ModelInfo> {
+  const response = await send({ type: "init", id: nextId++, modelId });
+  if (response.type !== "ready") {
+    throw new ModelLoadError();
+  }
+  return response.info;
+}
+
+export async function removeBackground(
+  image: File,
+  options: RemoveBackgroundOptions = {}
+): Promise<SegmentationResult> {
+  const { signal, onProgress, highResolution } = options;
+  signal?.throwIfAborted();
+
+  const id = nextId++;
+  // Upright and in sRGB, so phone photos are not segmented sideways
+  const bitmap = await decodeImage(image);
+  // Decoding large photos takes a while, the job may have been cancelled in the meantime
+  if (signal?.aborted) {
+    bitmap.close();
+    signal.throwIfAborted();
+  }
+  const onAbort = () => getWorker().postMessage({ type: "cancel", id } satisfies EngineRequest);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const response = await send({ type: "process", id, bitmap, highResolution }, [bitmap], onProgress);
+    if (response.type !== "result") {
+      throw new InferenceError();
+    }
+    const [fileName] = image.name.split(".");
+    return {
+      width: response.width,
+      height: response.height,
+      mask: new Uint8Array(response.mask),
+      cutout: new File([response.buffer], `${fileName}-bg-blasted.png`, { type: response.mimeType })
+    };
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// Alpha matte of a single frame, used by the video pipeline. The bitmap is transferred
+// to the worker and can no longer be used by the caller.
+export async function segmentFrame(bitmap: ImageBitmap, options: RemoveBackgroundOptions = {}): Promise<AlphaMask> {
+  const { signal, onProgress } = options;
+  signal?.throwIfAborted();
+
+  const id = nextId++;
+  const onAbort = () => getWorker().postMessage({ type: "cancel", id } satisfies EngineRequest);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const response = await send({ type: "segment", id, bitmap }, [bitmap], onProgress);
+    if (response.type !== "mask") {
+      throw new InferenceError();
+    }
+    return { data: new Uint8Array(response.buffer), width: response.width, height: response.height };
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+export function terminateEngine() {
+  worker?.terminate();
+  worker = null;
+}
@@ -0,0 +1,127 @@
+// Failures of the processing pipeline, typed so the UI can tell a failed model download from
+// an unreadable file or a device running out of memory. The classes do not survive
+// postMessage, the worker sends the code along and the engine rebuilds them.
+
+export type ProcessingErrorCode =
+  | "model-load"
+  | "backend-unavailable"
+  | "decode"
+  | "inference"
+  | "out-of-memory"
+  | "encode";
+
+export class ProcessingError extends Error {
+  readonly code: ProcessingErrorCode;
+
+  constructor(code: ProcessingErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "ProcessingError";
+    this.code = code;
+  }
+}
+
+// Model or processor files could not be downloaded, verified or parsed
+export class ModelLoadError extends ProcessingError {
+  constructor(message = "The background removal model could not be loaded", options?: { cause?: unknown }) {
+    super("model-load", message, options);
+    this.name = "ModelLoadError";
+  }
+}
+
+// Neither WebGPU nor WebAssembly could run the model on this device
+export class BackendUnavailableError extends ProcessingError {
+  constructor(message = "No backend can run the model in this browser", options?: { cause?: unknown }) {
+    super("backend-unavailable", message, options);
+    this.name = "BackendUnavailableError";
+  }
+}
+
+export class DecodeError extends ProcessingError {
+  constructor(message = "The image could not be decoded", options?: { cause?: unknown }) {
+    super("decode", message, options);
+    this.name = "DecodeError";
+  }
+}
+
+export class InferenceError extends ProcessingError {
+  constructor(message = "Failed to process image", options?: { cause?: unknown }) {
+    super("inference", message, options);
+    this.name = "InferenceError";
+  }
+}
+
+export class OutOfMemoryError extends ProcessingError {
+  constructor(message = "Ran out of memory while processing the image", options?: { cause?: unknown }) {
+    super("out-of-memory", message, options);
+    this.name = "OutOfMemoryError";
+  }
+}
+
+export class EncodeError extends ProcessingError {
+  constructor(message = "The result could not be encoded", options?: { cause?: unknown }) {
+    super("encode", message, options);
+    this.name = "EncodeError";
+  }
+}
+
+const errorClasses: Record<ProcessingErrorCode, new (message?: string, options?: { cause?: unknown }) => ProcessingError> = {
+  "model-load": ModelLoadError,
+  "backend-unavailable": BackendUnavailableError,
+  decode: DecodeError,
+  inference: InferenceError,
+  "out-of-memory": OutOfMemoryError,
+  encode: EncodeError
+};
+
+export function createProcessingError(code: ProcessingErrorCode, message?: string, options?: { cause?: unknown }) {
+  return new errorClasses[code](message, options);
+}
+
+// Browsers, WebAssembly and onnxruntime each word this differently
+const OUT_OF_MEMORY_PATTERN = /out of memory|allocation failed|failed to allocate|bad_alloc|invalid array length|\boom\b/i;
+
+export function isOutOfMemory(error: unknown) {
+  if (typeof error !== "object" || error === null) return false;
+  const { name, message } = error as { name?: unknown; message?: unknown };
+  return name === "GPUOutOfMemoryError" || (typeof message === "string" && OUT_OF_MEMORY_PATTERN.test(message));
+}
+
+// Keep typed errors as they are, classify anything else as `fallback` unless it is memory related
+export function toProcessingError(error: unknown, fallback: ProcessingErrorCode): ProcessingError {
+  if (error instanceof ProcessingError) return error;
+  if (isOutOfMemory(error)) return new OutOfMemoryError(undefined, { cause: error });
+  const message = error instanceof Error && error.message ? error.message : undefined;
+  return createProcessingError(fallback, message, { cause: error });
+}
+
+export function getErrorCode(error: unknown): ProcessingErrorCode | undefined {
+  return error instanceof ProcessingError ? error.code : undefined;
+}
+
+// What the UI tells the user for each kind of failure, and what its retry button offers
+export const errorHelp: Record<ProcessingErrorCode, { hint: string; retryLabel: string }> = {
+  "model-load": {
+    hint: "Check your connection, the model is downloaded once and cached afterwards.",
+    retryLabel: "Retry download"
+  },
+  "backend-unavailable": {
+    hint: "This browser could not run the selected model. The retry switches to the default model, which runs on WebAssembly in every up-to-date browser.",
+    retryLabel: "Retry with the default model"
+  },
+  decode: {
+    hint: "The file may be damaged or in a format this browser cannot read. Try saving it as JPEG or PNG.",
+    retryLabel: "Retry"
+  },
+  inference: {
+    hint: "Something went wrong while running the model.",
+    retryLabel: "Retry"
+  },
+  "out-of-memory": {
+    hint: "The image is too large for the memory available. Closing other tabs or using a smaller image helps.",
+    retryLabel: "Retry without high resolution"
+  },
+  encode: {
+    hint: "The result could not be saved as an image.",
+    retryLabel: "Retry"
+  }
+};
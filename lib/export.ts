@@ -0,0 +1,161 @@
+import { DEFAULT_METADATA, readMetadata, writeMetadata, type MetadataSettings } from "./metadata";
+
+// Encoding of finished results for download. Results stay lossless PNGs inside the app, the
+// format, size and name are only chosen here at the very end.
+
+export type ExportFormat = "png" | "webp" | "jpeg" | "avif";
+
+export type ExportSizeMode = "original" | "max" | "exact";
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // 0..1, ignored by PNG
+  quality: number;
+  // Fills transparent pixels for formats without alpha
+  background: string;
+  sizeMode: ExportSizeMode;
+  // Longest side for "max"
+  maxDimension: number;
+  // Output size for "exact", the image is fitted inside and centred
+  width: number;
+  height: number;
+  // File name without extension, see formatFileName for the placeholders
+  fileName: string;
+  // Which metadata of the original upload is carried over
+  metadata: MetadataSettings;
+}
+
+export const DEFAULT_EXPORT: ExportSettings = {
+  format: "png",
+  quality: 0.9,
+  background: "#ffffff",
+  sizeMode: "original",
+  maxDimension: 2048,
+  width: 1080,
+  height: 1080,
+  fileName: "{name}-cutout",
+  metadata: DEFAULT_METADATA
+};
+
+export const exportFormats: { id: ExportFormat; label: string; mime: string; extension: string; alpha: boolean; lossy: boolean }[] = [
+  { id: "png", label: "PNG", mime: "image/png", extension: "png", alpha: true, lossy: false },
+  { id: "webp", label: "WebP", mime: "image/webp", extension: "webp", alpha: true, lossy: true },
+  { id: "jpeg", label: "JPEG", mime: "image/jpeg", extension: "jpg", alpha: false, lossy: true },
+  { id: "avif", label: "AVIF", mime: "image/avif", extension: "avif", alpha: true, lossy: true }
+];
+
+function getFormat(format: ExportFormat) {
+  const entry = exportFormats.find(item => item.id === format);
+  if (!entry) throw new Error(`Unknown export format: ${format}`);
+  return entry;
+}
+
+const supportCache = new Map<ExportFormat, Promise<boolean>>();
+
+// Browsers quietly fall back to PNG for types they cannot encode, so check what comes back
+export function isFormatSupported(format: ExportFormat): Promise<boolean> {
+  let supported = supportCache.get(format);
+  if (!supported) {
+    const { mime } = getFormat(format);
+    supported = new OffscreenCanvas(1, 1)
+      .convertToBlob({ type: mime })
+      .then(blob => blob.type === mime)
+      .catch(() => false);
+    supportCache.set(format, supported);
+  }
+  return supported;
+}
+
+// Size of the encoded image for the source size, never upscaling for "max"
+export function getExportSize(settings: ExportSettings, width: number, height: number) {
+  if (settings.sizeMode === "exact") {
+    return { width: Math.max(1, Math.round(settings.width)), height: Math.max(1, Math.round(settings.height)) };
+  }
+  if (settings.sizeMode === "max") {
+    const ratio = Math.min(1, settings.maxDimension / Math.max(width, height));
+    return { width: Math.max(1, Math.round(width * ratio)), height: Math.max(1, Math.round(height * ratio)) };
+  }
+  return { width, height };
+}
+
+// Fill in {name}, {width}, {height}, {format} and {date}, then add the extension
+export function formatFileName(
+  template: string,
+  values: { name: string; width: number; height: number; format: ExportFormat }
+) {
+  const dot = values.name.lastIndexOf(".");
+  const name = dot > 0 ? values.name.slice(0, dot) : values.name;
+  const fileName = template
+    .replace(/\{name\}/g, name)
+    .replace(/\{width\}/g, String(values.width))
+    .replace(/\{height\}/g, String(values.height))
+    .replace(/\{format\}/g, values.format)
+    .replace(/\{date\}/g, new Date().toISOString().slice(0, 10))
+    .replace(/[\\/:*?"<>|]+/g, "_")
+    .trim();
+  return `${fileName || "image"}.${getFormat(values.format).extension}`;
+}
+
+// `original` is the upload the result came from, its EXIF and XMP are copied as the settings allow
+async function encode(source: Blob | OffscreenCanvas, settings: ExportSettings, original?: Blob) {
+  const format = getFormat(settings.format);
+  const bitmap = await createImageBitmap(source);
+  const { width, height } = getExportSize(settings, bitmap.width, bitmap.height);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2d context");
+  if (!format.alpha) {
+    ctx.fillStyle = settings.background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  const ratio = Math.min(width / bitmap.width, height / bitmap.height);
+  const drawWidth = bitmap.width * ratio;
+  const drawHeight = bitmap.height * ratio;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(bitmap, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  bitmap.close();
+
+  const blob = await canvas.convertToBlob({ type: format.mime, quality: format.lossy ? settings.quality : undefined });
+  if (blob.type !== format.mime) throw new Error(`This browser cannot encode ${format.label} images`);
+  return { blob: await tagBlob(blob, settings.format, { width, height }, settings.metadata, original), width, height };
+}
+
+async function tagBlob(
+  blob: Blob,
+  format: ExportFormat,
+  size: { width: number; height: number },
+  settings: MetadataSettings,
+  original?: Blob
+) {
+  const keepsMetadata = settings.keepExif || settings.keepXmp;
+  const metadata = original && keepsMetadata ? await readMetadata(original) : {};
+  return writeMetadata(blob, format, size, metadata, settings);
+}
+
+// Results downloaded as they are (gallery cards, masks, the ZIP) keep their PNG bytes and only
+// get the sRGB tag and the metadata the settings allow. Anything else, like an animated GIF,
+// is passed through.
+export async function tagForDownload(file: File, settings: MetadataSettings, original?: Blob): Promise<File> {
+  if (file.type !== "image/png") return file;
+  // Width and height are the first fields of the IHDR chunk, right after the signature
+  const header = new DataView(await file.slice(16, 24).arrayBuffer());
+  const size = { width: header.getUint32(0), height: header.getUint32(4) };
+  const blob = await tagBlob(file, "png", size, settings, original);
+  return new File([blob], file.name, { type: file.type });
+}
+
+export async function exportImage(source: Blob | OffscreenCanvas, settings: ExportSettings, original?: Blob): Promise<Blob> {
+  return (await encode(source, settings, original)).blob;
+}
+
+export async function exportToFile(
+  source: Blob | OffscreenCanvas,
+  sourceName: string,
+  settings: ExportSettings,
+  original?: Blob
+): Promise<File> {
+  const { blob, width, height } = await encode(source, settings, original);
+  const name = formatFileName(settings.fileName, { name: sourceName, width, height, format: settings.format });
+  return new File([blob], name, { type: blob.type });
+}
@@ -0,0 +1,192 @@
+import type { IFD } from "utif";
+import { GifReader } from "omggif";
+import { isVideoFile } from "./video";
+import { DecodeError, toProcessingError, type ProcessingError } from "./errors";
+
+// Decoding of uploads the rest of the app cannot read directly. Every upload is turned into
+// files the browser decodes itself before it is queued, so previews, the worker and the
+// editor never have to know about HEIC or TIFF.
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "gif" | "bmp" | "avif" | "heic" | "tiff";
+
+// Extensions for the dropzone, some systems report HEIC and TIFF without a MIME type
+export const imageExtensions = [
+  ".jpeg", ".jpg", ".png", ".webp", ".gif", ".bmp", ".avif", ".heic", ".heif", ".tif", ".tiff"
+];
+
+const formatLabels: Record<ImageFormat, string> = {
+  jpeg: "JPEG",
+  png: "PNG",
+  webp: "WebP",
+  gif: "GIF",
+  bmp: "BMP",
+  avif: "AVIF",
+  heic: "HEIC",
+  tiff: "TIFF"
+};
+
+const formatMimes: Record<ImageFormat, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  avif: "image/avif",
+  heic: "image/heic",
+  tiff: "image/tiff"
+};
+
+const AVIF_BRANDS = ["avif", "avis"];
+const HEIC_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"];
+
+export interface UploadFailure {
+  file: File;
+  error: ProcessingError;
+}
+
+export interface PreparedUploads {
+  files: File[];
+  // One per upload that could not be read
+  failures: UploadFailure[];
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number) {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+// The extension and MIME type are often wrong or missing, the first bytes are not
+export async function detectFormat(file: Blob): Promise<ImageFormat | null> {
+  const bytes = new Uint8Array(await file.slice(0, 64).arrayBuffer());
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg";
+  if (ascii(bytes, 0, 4) === "\x89PNG") return "png";
+  if (ascii(bytes, 0, 4) === "GIF8") return "gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return "webp";
+  if (ascii(bytes, 0, 2) === "BM") return "bmp";
+  if (ascii(bytes, 0, 4) === "II*\0" || ascii(bytes, 0, 4) === "MM\0*") return "tiff";
+
+  // HEIF containers list their major brand and compatible brands in the leading ftyp box
+  if (ascii(bytes, 4, 4) === "ftyp") {
+    const size = Math.min(new DataView(bytes.buffer).getUint32(0), bytes.length);
+    const brands = [ascii(bytes, 8, 4)];
+    for (let offset = 16; offset + 4 <= size; offset += 4) brands.push(ascii(bytes, offset, 4));
+    if (brands.some(brand => AVIF_BRANDS.includes(brand))) return "avif";
+    if (brands.some(brand => HEIC_BRANDS.includes(brand))) return "heic";
+  }
+  return null;
+}
+
+async function canDecode(file: Blob) {
+  try {
+    const bitmap = await createImageBitmap(file);
+    bitmap.close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function baseName(fileName: string) {
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
+
+// heic2any bundles libheif and is only loaded once someone uploads a HEIC the browser cannot read
+async function convertHeic(file: File) {
+  const { default: heic2any } = await import("heic2any");
+  let result: Blob | Blob[];
+  try {
+    result = await heic2any({ blob: file, toType: "image/png" });
+  } catch {
+    throw new DecodeError(`"${file.name}" could not be decoded as HEIC`);
+  }
+  const blob = Array.isArray(result) ? result[0] : result;
+  return new File([blob], `${baseName(file.name)}.png`, { type: "image/png" });
+}
+
+// Each page of a TIFF becomes its own PNG, reduced-resolution previews are skipped.
+// Like heic2any, UTIF is only loaded when needed.
+async function convertTiff(file: File) {
+  const UTIF = await import("utif");
+  const buffer = await file.arrayBuffer();
+  let pages: IFD[];
+  try {
+    pages = UTIF.decode(buffer).filter(ifd => {
+      const subfileType = ifd.t254 as number[] | undefined;
+      return !subfileType || (subfileType[0] & 1) === 0;
+    });
+  } catch {
+    throw new DecodeError(`"${file.name}" is not a valid TIFF file`);
+  }
+  if (pages.length === 0) throw new DecodeError(`"${file.name}" contains no images`);
+
+  const files: File[] = [];
+  for (const [index, page] of pages.entries()) {
+    let rgba: Uint8Array;
+    try {
+      UTIF.decodeImage(buffer, page);
+      rgba = UTIF.toRGBA8(page);
+    } catch {
+      throw new DecodeError(`"${file.name}" uses a TIFF compression that cannot be decoded`);
+    }
+    const { width, height } = page;
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get 2d context");
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(rgba), width, height), 0, 0);
+    const blob = await canvas.convertToBlob({ type: "image/png" });
+    const name = pages.length > 1 ? `${baseName(file.name)}-page-${index + 1}.png` : `${baseName(file.name)}.png`;
+    files.push(new File([blob], name, { type: "image/png" }));
+  }
+  return files;
+}
+
+// Files ready for the queue, a multi-page TIFF turns into several
+export async function prepareImageFile(file: File): Promise<File[]> {
+  const format = await detectFormat(file);
+  if (!format) {
+    throw new DecodeError(`"${file.name}" is not a supported image, use JPEG, PNG, WebP, GIF, BMP, AVIF, HEIC or TIFF`);
+  }
+
+  switch (format) {
+    case "tiff":
+      return convertTiff(file);
+    case "heic":
+      // Safari reads HEIC natively
+      if (!(await canDecode(file))) return [await convertHeic(file)];
+      break;
+    case "bmp":
+    case "avif":
+      if (!(await canDecode(file))) {
+        throw new DecodeError(`${formatLabels[format]} images cannot be decoded by this browser`);
+      }
+      break;
+  }
+  // Make sure the type matches the content, the worker and metadata code rely on it
+  return [file.type === formatMimes[format] ? file : new File([file], file.name, { type: formatMimes[format] })];
+}
+
+export async function prepareUploads(uploads: File[]): Promise<PreparedUploads> {
+  const files: File[] = [];
+  const failures: UploadFailure[] = [];
+  for (const upload of uploads) {
+    if (isVideoFile(upload)) {
+      files.push(upload);
+      continue;
+    }
+    try {
+      files.push(...await prepareImageFile(upload));
+    } catch (error) {
+      failures.push({ file: upload, error: toProcessingError(error, "decode") });
+    }
+  }
+  return { files, failures };
+}
+
+export async function isAnimatedGif(file: Blob) {
+  if (file.type !== "image/gif") return false;
+  try {
+    return new GifReader(new Uint8Array(await file.arrayBuffer())).numFrames() > 1;
+  } catch {
+    return false;
+  }
+}
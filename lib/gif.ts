@@ -0,0 +1,163 @@
+import { GifReader, GifWriter } from "omggif";
+import { segmentFrame } from "./engine";
+
+// Frame-by-frame background removal for animated GIFs. Frames are composed the way a
+// browser would show them, segmented in the worker and written back out as a GIF with
+// transparency, keeping the original timing and loop count.
+
+export interface GifOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+// GIF transparency is on or off, softer edges are cut at half coverage
+const ALPHA_THRESHOLD = 128;
+const TRANSPARENT_INDEX = 255;
+// Colours are grouped by their top 5 bits per channel before building the palette
+const HISTOGRAM_BITS = 5;
+
+function binOf(r: number, g: number, b: number) {
+  const shift = 8 - HISTOGRAM_BITS;
+  return ((r >> shift) << (2 * HISTOGRAM_BITS)) | ((g >> shift) << HISTOGRAM_BITS) | (b >> shift);
+}
+
+function binChannel(bin: number, channel: number) {
+  return (bin >> ((2 - channel) * HISTOGRAM_BITS)) & ((1 << HISTOGRAM_BITS) - 1);
+}
+
+// Median cut over the opaque pixels of one frame, at most 255 colours so one index stays free
+// for transparency
+function buildPalette(pixels: Uint8ClampedArray) {
+  const counts = new Uint32Array(1 << (3 * HISTOGRAM_BITS));
+  const sums = new Float64Array(counts.length * 3);
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < ALPHA_THRESHOLD) continue;
+    const bin = binOf(pixels[i], pixels[i + 1], pixels[i + 2]);
+    counts[bin]++;
+    sums[3 * bin] += pixels[i];
+    sums[3 * bin + 1] += pixels[i + 1];
+    sums[3 * bin + 2] += pixels[i + 2];
+  }
+
+  const used: number[] = [];
+  for (let bin = 0; bin < counts.length; bin++) if (counts[bin] > 0) used.push(bin);
+  const boxes: number[][] = used.length > 0 ? [used] : [];
+
+  while (boxes.length < TRANSPARENT_INDEX) {
+    // Split the box spanning the widest range of a single channel
+    let target = -1;
+    let targetChannel = 0;
+    let widest = 0;
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      for (let channel = 0; channel < 3; channel++) {
+        let min = Infinity;
+        let max = -Infinity;
+        for (const bin of box) {
+          const value = binChannel(bin, channel);
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+        }
+        if (max - min > widest) {
+          widest = max - min;
+          target = index;
+          targetChannel = channel;
+        }
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target].sort((a, b) => binChannel(a, targetChannel) - binChannel(b, targetChannel));
+    const half = box.reduce((total, bin) => total + counts[bin], 0) / 2;
+    let split = 1;
+    for (let seen = counts[box[0]]; split < box.length - 1 && seen < half; split++) seen += counts[box[split]];
+    boxes.splice(target, 1, box.slice(0, split), box.slice(split));
+  }
+
+  const palette: number[] = [];
+  const lookup = new Int16Array(counts.length).fill(-1);
+  boxes.forEach((box, index) => {
+    let total = 0;
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const bin of box) {
+      total += counts[bin];
+      r += sums[3 * bin];
+      g += sums[3 * bin + 1];
+      b += sums[3 * bin + 2];
+      lookup[bin] = index;
+    }
+    palette.push((Math.round(r / total) << 16) | (Math.round(g / total) << 8) | Math.round(b / total));
+  });
+  // GIF palettes have a power of two size
+  while (palette.length < 256) palette.push(0);
+  return { palette, lookup };
+}
+
+function quantizeFrame(pixels: Uint8ClampedArray) {
+  const { palette, lookup } = buildPalette(pixels);
+  const indexed = new Array<number>(pixels.length / 4);
+  for (let p = 0; p < indexed.length; p++) {
+    const i = 4 * p;
+    indexed[p] = pixels[i + 3] < ALPHA_THRESHOLD
+      ? TRANSPARENT_INDEX
+      : lookup[binOf(pixels[i], pixels[i + 1], pixels[i + 2])];
+  }
+  return { palette, indexed };
+}
+
+export async function processAnimatedGif(file: File, options: GifOptions = {}): Promise<File> {
+  const { signal, onProgress } = options;
+  const reader = new GifReader(new Uint8Array(await file.arrayBuffer()));
+  const { width, height } = reader;
+  const frameCount = reader.numFrames();
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get 2d context");
+
+  // LZW codes grow to 12 bits, so a frame never needs more than two bytes per pixel
+  const output = new Uint8Array(1024 + frameCount * (2 * width * height + 1024));
+  // Null when the input has no NETSCAPE extension, the output then plays once as well
+  const writer = new GifWriter(output, width, height, { loop: reader.loopCount() });
+
+  const composed = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < frameCount; i++) {
+    signal?.throwIfAborted();
+    const info = reader.frameInfo(i);
+    const previous = info.disposal === 3 ? composed.slice() : null;
+    reader.decodeAndBlitFrameRGBA(i, composed);
+
+    const frame = new ImageData(composed.slice(), width, height);
+    ctx.putImageData(frame, 0, 0);
+    const { data: mask } = await segmentFrame(await createImageBitmap(canvas), { signal });
+    for (let p = 0; p < mask.length; p++) {
+      frame.data[4 * p + 3] = Math.min(frame.data[4 * p + 3], mask[p]);
+    }
+
+    // Every output frame covers the whole canvas and clears it before the next one
+    const { palette, indexed } = quantizeFrame(frame.data);
+    writer.addFrame(0, 0, width, height, indexed, {
+      delay: info.delay,
+      disposal: 2,
+      palette,
+      transparent: TRANSPARENT_INDEX
+    });
+
+    // Apply the frame's disposal before composing the next one
+    if (info.disposal === 2) {
+      for (let y = info.y; y < info.y + info.height; y++) {
+        composed.fill(0, 4 * (y * width + info.x), 4 * (y * width + info.x + info.width));
+      }
+    } else if (previous) {
+      composed.set(previous);
+    }
+
+    onProgress?.((i + 1) / frameCount);
+  }
+
+  const length = writer.end();
+  const [fileName] = file.name.split(".");
+  return new File([output.slice(0, length)], `${fileName}-bg-blasted.gif`, { type: "image/gif" });
+}
@@ -0,0 +1,70 @@
+import type { ModelEvent } from "./process";
+import type { ModelDevice } from "./models";
+
+// Folds the model events of lib/engine.ts into what the loading screen shows
+
+export type LoadPhase = "idle" | "download" | "compile" | "ready" | "inference";
+
+export interface LoadProgress {
+  phase: LoadPhase;
+  device?: ModelDevice;
+  // Bytes per file, totals only become known once a file starts downloading
+  files: Record<string, { loaded: number; total: number }>;
+  loaded: number;
+  total: number;
+  // Time of the first download event, the ETA is based on the average rate since then
+  startedAt?: number;
+  // Seconds left for the download, undefined until there is enough data to guess
+  eta?: number;
+  // Duration of the last forward pass in milliseconds
+  lastInference?: number;
+}
+
+export const initialLoadProgress: LoadProgress = {
+  phase: "idle",
+  files: {},
+  loaded: 0,
+  total: 0
+};
+
+// Wait this long before showing an ETA, the first chunks say little about the rate
+const MIN_ETA_SAMPLE_MS = 1000;
+
+export function reduceLoadProgress(state: LoadProgress, event: ModelEvent, now = Date.now()): LoadProgress {
+  switch (event.type) {
+    case "download": {
+      // A download after the model was ready belongs to a newly selected model, start counting again
+      const base = state.phase === "download" || state.phase === "compile" ? state : initialLoadProgress;
+      const files = { ...base.files, [event.file]: { loaded: event.loaded, total: event.total } };
+      const entries = Object.values(files);
+      const loaded = entries.reduce((sum, file) => sum + file.loaded, 0);
+      const total = entries.reduce((sum, file) => sum + file.total, 0);
+      const startedAt = base.startedAt ?? now;
+      const elapsed = now - startedAt;
+      const rate = elapsed > 0 ? loaded / elapsed : 0;
+      return {
+        ...state,
+        phase: "download",
+        files,
+        loaded,
+        total,
+        startedAt,
+        eta: elapsed >= MIN_ETA_SAMPLE_MS && rate > 0 ? Math.ceil((total - loaded) / rate / 1000) : undefined
+      };
+    }
+    case "compile":
+      return { ...state, phase: "compile", device: event.device, eta: undefined };
+    case "ready":
+      return { ...state, phase: "ready", device: event.device, eta: undefined };
+    case "inference-start":
+      return { ...state, phase: "inference", device: event.device };
+    case "inference-end":
+      return { ...state, phase: "ready", device: event.device, lastInference: event.duration };
+  }
+}
+
+export function formatEta(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+}
@@ -0,0 +1,132 @@
+import type { AlphaMask } from "./process";
+import { applyMatting, DEFAULT_MATTING, type MattingSettings } from "./matting";
+import { decodeImage } from "./metadata";
+
+// Helpers for working with the alpha matte on the main thread
+
+// Render the matte as an opaque grayscale PNG, white is subject and black is background
+export async function maskToPng(mask: AlphaMask): Promise<Blob> {
+  const canvas = new OffscreenCanvas(mask.width, mask.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2d context");
+
+  const pixels = ctx.createImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    pixels.data[4 * i] = mask.data[i];
+    pixels.data[4 * i + 1] = mask.data[i];
+    pixels.data[4 * i + 2] = mask.data[i];
+    pixels.data[4 * i + 3] = 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.convertToBlob({ type: "image/png" });
+}
+
+export async function maskToFile(mask: AlphaMask, originalName: string): Promise<File> {
+  const [fileName] = originalName.split(".");
+  return new File([await maskToPng(mask)], `${fileName}-mask.png`, { type: "image/png" });
+}
+
+// Smallest rectangle holding every pixel with alpha above `threshold`, null when there is none
+export function findSubjectBounds(pixels: Uint8ClampedArray, width: number, height: number, threshold = 0): DirtyRect | null {
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[4 * (y * width + x) + 3] <= threshold) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      bottom = y;
+    }
+  }
+  return right < 0 ? null : { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+export type BrushMode = "restore" | "erase";
+
+export interface BrushOptions {
+  mode: BrushMode;
+  // Radius in mask pixels
+  radius: number;
+  // 0..1, the share of the radius painted at full strength before fading out
+  hardness: number;
+}
+
+export interface DirtyRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function stampDab(mask: AlphaMask, cx: number, cy: number, { mode, radius, hardness }: BrushOptions) {
+  const x0 = Math.max(0, Math.floor(cx - radius));
+  const y0 = Math.max(0, Math.floor(cy - radius));
+  const x1 = Math.min(mask.width - 1, Math.ceil(cx + radius));
+  const y1 = Math.min(mask.height - 1, Math.ceil(cy + radius));
+  const core = radius * hardness;
+
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const distance = Math.hypot(x - cx, y - cy);
+      if (distance > radius) continue;
+      const strength = distance <= core ? 1 : 1 - (distance - core) / (radius - core);
+      const i = y * mask.width + x;
+      mask.data[i] = mode === "restore"
+        ? Math.round(mask.data[i] + (255 - mask.data[i]) * strength)
+        : Math.round(mask.data[i] * (1 - strength));
+    }
+  }
+}
+
+// Paint a brush segment into the mask in place and return the area that changed
+export function applyBrushStroke(
+  mask: AlphaMask,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  brush: BrushOptions
+): DirtyRect {
+  // Space dabs a quarter radius apart so fast strokes stay continuous
+  const spacing = Math.max(1, brush.radius / 4);
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+  for (let step = 0; step <= steps; step++) {
+    const t = step / steps;
+    stampDab(mask, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, brush);
+  }
+
+  const x = Math.max(0, Math.floor(Math.min(from.x, to.x) - brush.radius));
+  const y = Math.max(0, Math.floor(Math.min(from.y, to.y) - brush.radius));
+  return {
+    x,
+    y,
+    width: Math.min(mask.width, Math.ceil(Math.max(from.x, to.x) + brush.radius) + 1) - x,
+    height: Math.min(mask.height, Math.ceil(Math.max(from.y, to.y) + brush.radius) + 1) - y
+  };
+}
+
+// Build the cutout PNG again from the original image and an edited mask, running the
+// matting post-processing on the way
+export async function composeCutout(
+  original: Blob,
+  mask: AlphaMask,
+  name: string,
+  matting: MattingSettings = DEFAULT_MATTING
+): Promise<File> {
+  const bitmap = await decodeImage(original);
+  const canvas = new OffscreenCanvas(mask.width, mask.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2d context");
+  ctx.drawImage(bitmap, 0, 0, mask.width, mask.height);
+  bitmap.close();
+
+  const pixels = ctx.getImageData(0, 0, mask.width, mask.height);
+  const { data: alpha } = applyMatting(mask, matting, pixels.data);
+  for (let i = 0; i < alpha.length; i++) {
+    pixels.data[4 * i + 3] = alpha[i];
+  }
+  ctx.putImageData(pixels, 0, 0);
+  const blob = await canvas.convertToBlob({ type: "image/png" });
+  return new File([blob], name, { type: "image/png" });
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyLevels,
+  applyGamma,
+  shiftEdge,
+  featherEdge,
+  removeSmallRegions,
+  distanceTransform,
+  guidedFilter,
+  decontaminateColors
+} from "./matting";
+
+// Mattes are written row by row, `grid` turns rows of 0/1 into alpha
+function grid(rows: number[][]) {
+  return Uint8Array.from(rows.flat(), value => value * 255);
+}
+
+function rgba(colors: number[][]) {
+  return Uint8ClampedArray.from(colors.flat());
+}
+
+describe("applyLevels", () => {
+  it("clips below low and above high and stretches the range between", () => {
+    const alpha = new Uint8Array([0, 50, 100, 150, 200, 255]);
+    expect(applyLevels(alpha, 50, 200)).toEqual(new Uint8Array([0, 0, 85, 170, 255, 255]));
+  });
+
+  it("leaves the input untouched", () => {
+    const alpha = new Uint8Array([10, 240]);
+    applyLevels(alpha, 20, 230);
+    expect(alpha).toEqual(new Uint8Array([10, 240]));
+  });
+});
+
+describe("applyGamma", () => {
+  it("keeps the end points and bends the values between", () => {
+    const alpha = new Uint8Array([0, 64, 255]);
+    expect(applyGamma(alpha, 0.5)).toEqual(new Uint8Array([0, 128, 255]));
+    expect(applyGamma(alpha, 2)).toEqual(new Uint8Array([0, 16, 255]));
+    expect(applyGamma(alpha, 1)).toEqual(alpha);
+  });
+});
+
+describe("shiftEdge", () => {
+  const dot = grid([
+    [0, 0, 0, 0, 0],
+    [0, 0, 0, 0, 0],
+    [0, 0, 1, 0, 0],
+    [0, 0, 0, 0, 0],
+    [0, 0, 0, 0, 0]
+  ]);
+  const square = grid([
+    [0, 0, 0, 0, 0],
+    [0, 1, 1, 1, 0],
+    [0, 1, 1, 1, 0],
+    [0, 1, 1, 1, 0],
+    [0, 0, 0, 0, 0]
+  ]);
+
+  it("grows the subject by a square window", () => {
+    expect(shiftEdge(dot, 5, 5, 1)).toEqual(square);
+  });
+
+  it("shrinks the subject by a square window", () => {
+    expect(shiftEdge(square, 5, 5, -1)).toEqual(dot);
+  });
+
+  it("returns a copy for a zero shift", () => {
+    const result = shiftEdge(square, 5, 5, 0);
+    expect(result).toEqual(square);
+    expect(result).not.toBe(square);
+  });
+});
+
+describe("featherEdge", () => {
+  it("blurs with two box passes that shrink at the borders", () => {
+    // First pass 127.5, 85, 127.5, second pass 106.25, 113.33, 106.25
+    expect(featherEdge(new Uint8Array([0, 255, 0]), 3, 1, 1)).toEqual(new Uint8Array([106, 113, 106]));
+  });
+
+  it("keeps a flat matte flat", () => {
+    const alpha = new Uint8Array(12).fill(200);
+    expect(featherEdge(alpha, 4, 3, 2)).toEqual(alpha);
+  });
+});
+
+describe("removeSmallRegions", () => {
+  const alpha = grid([
+    [0, 0, 0, 0, 0, 0],
+    [0, 1, 1, 1, 1, 0],
+    [0, 1, 0, 1, 1, 0],
+    [0, 1, 1, 1, 1, 0],
+    [0, 1, 1, 1, 1, 0],
+    [0, 0, 0, 0, 0, 1]
+  ]);
+
+  it("drops small islands and fills small enclosed holes", () => {
+    expect(removeSmallRegions(alpha, 6, 6, 2, 2)).toEqual(grid([
+      [0, 0, 0, 0, 0, 0],
+      [0, 1, 1, 1, 1, 0],
+      [0, 1, 1, 1, 1, 0],
+      [0, 1, 1, 1, 1, 0],
+      [0, 1, 1, 1, 1, 0],
+      [0, 0, 0, 0, 0, 0]
+    ]));
+  });
+
+  it("only touches regions below the given sizes", () => {
+    expect(removeSmallRegions(alpha, 6, 6, 1, 1)).toEqual(alpha);
+    expect(removeSmallRegions(alpha, 6, 6, 0, 0)).toEqual(alpha);
+  });
+
+  it("never fills background that reaches the border", () => {
+    const row = grid([[1, 0, 1]]);
+    expect(removeSmallRegions(row, 3, 1, 0, 10)).toEqual(row);
+  });
+});
+
+describe("distanceTransform", () => {
+  it("measures the distance along a row", () => {
+    const alpha = grid([[1, 0, 0, 0, 0]]);
+    expect(distanceTransform(alpha, 5, 1, true)).toEqual(new Float32Array([0, 1, 2, 3, 4]));
+  });
+
+  it("measures euclidean distances to either side of the edge", () => {
+    const alpha = grid([
+      [0, 0, 0],
+      [0, 1, 0],
+      [0, 0, 0]
+    ]);
+    const diagonal = Math.fround(Math.SQRT2);
+    expect(distanceTransform(alpha, 3, 3, true)).toEqual(new Float32Array([
+      diagonal, 1, diagonal,
+      1, 0, 1,
+      diagonal, 1, diagonal
+    ]));
+    expect(distanceTransform(alpha, 3, 3, false)).toEqual(new Float32Array([0, 0, 0, 0, 1, 0, 0, 0, 0]));
+  });
+});
+
+describe("guidedFilter", () => {
+  const black = [0, 0, 0, 255];
+  const white = [255, 255, 255, 255];
+  const pixels = rgba([black, black, black, white, white, white]);
+
+  it("snaps a soft matte to the edge of the image", () => {
+    const alpha = new Uint8Array([0, 64, 128, 128, 192, 255]);
+    const result = guidedFilter(alpha, pixels, 6, 1, 2);
+    expect(result[2]).toBeLessThan(alpha[2] - 32);
+    expect(result[3]).toBeGreaterThan(alpha[3] + 32);
+  });
+
+  it("keeps a flat matte flat", () => {
+    const alpha = new Uint8Array(6).fill(180);
+    expect(guidedFilter(alpha, pixels, 6, 1, 2)).toEqual(alpha);
+  });
+
+  it("returns a copy when turned off", () => {
+    const alpha = new Uint8Array([0, 64, 128, 128, 192, 255]);
+    expect(guidedFilter(alpha, pixels, 6, 1, 0)).toEqual(alpha);
+  });
+});
+
+describe("decontaminateColors", () => {
+  const colors = () => rgba([[255, 0, 0, 255], [0, 255, 0, 128], [0, 0, 255, 0]]);
+  const alpha = new Uint8Array([255, 128, 0]);
+
+  it("pulls soft edge pixels toward the nearby subject colour", () => {
+    const pixels = colors();
+    decontaminateColors(pixels, alpha, 3, 1, 1);
+    // Half transparent, so half way from green to the red of the subject
+    expect(pixels).toEqual(rgba([[255, 0, 0, 255], [127, 128, 0, 128], [0, 0, 255, 0]]));
+  });
+
+  it("does nothing at zero strength", () => {
+    const pixels = colors();
+    decontaminateColors(pixels, alpha, 3, 1, 0);
+    expect(pixels).toEqual(colors());
+  });
+});
@@ -0,0 +1,330 @@
+import type { AlphaMask } from "./process";
+
+// Post-processing of the alpha matte between inference and compositing. Every stage is a
+// plain function over typed arrays, so the same mask and settings always give the same result.
+
+export interface MattingSettings {
+  // Alpha at or below `low` becomes transparent, at or above `high` opaque, linear in between
+  low: number;
+  high: number;
+  // Curve applied after the levels, below 1 makes soft edges more opaque, above 1 more transparent
+  gamma: number;
+  // Pixels to grow (positive) or shrink (negative) the subject by
+  shift: number;
+  // Blur radius softening the edge, 0 keeps it as is
+  feather: number;
+  // Opaque specks smaller than this many pixels are removed
+  minIslandArea: number;
+  // Transparent holes inside the subject smaller than this many pixels are filled
+  maxHoleArea: number;
+  // Radius of the guided filter snapping the edge to details of the image, 0 turns it off
+  guidedRadius: number;
+  // 0..1, how much of the background colour bleeding into soft edges is replaced
+  decontaminate: number;
+}
+
+export const DEFAULT_MATTING: MattingSettings = {
+  low: 0,
+  high: 255,
+  gamma: 1,
+  shift: 0,
+  feather: 0,
+  minIslandArea: 0,
+  maxHoleArea: 0,
+  guidedRadius: 0,
+  decontaminate: 0
+};
+
+// Matte values at or above this count as subject when looking for islands and holes
+const REGION_THRESHOLD = 128;
+// Regularisation of the guided filter on 0..1 intensities, larger values keep more of the matte
+const GUIDED_EPSILON = 1e-3;
+// Alpha a pixel needs to count as solid subject when sampling the true edge colour
+const SOLID_ALPHA = 240;
+const DECONTAMINATION_RADIUS = 12;
+
+export function isDefaultMatting(settings: MattingSettings) {
+  return (Object.keys(DEFAULT_MATTING) as (keyof MattingSettings)[])
+    .every(key => settings[key] === DEFAULT_MATTING[key]);
+}
+
+function mapAlpha(alpha: Uint8Array, transfer: (value: number) => number) {
+  const lut = new Uint8Array(256);
+  for (let value = 0; value < 256; value++) {
+    lut[value] = Math.max(0, Math.min(255, Math.round(transfer(value))));
+  }
+  return alpha.map(value => lut[value]);
+}
+
+export function applyLevels(alpha: Uint8Array, low: number, high: number) {
+  const range = Math.max(1, high - low);
+  return mapAlpha(alpha, value => value <= low ? 0 : value >= high ? 255 : ((value - low) / range) * 255);
+}
+
+export function applyGamma(alpha: Uint8Array, gamma: number) {
+  return mapAlpha(alpha, value => 255 * (value / 255) ** gamma);
+}
+
+// Dilate (positive amount) or erode (negative amount) with a square window, as two 1D passes
+export function shiftEdge(alpha: Uint8Array, width: number, height: number, amount: number) {
+  const radius = Math.abs(Math.round(amount));
+  if (radius === 0) return alpha.slice();
+  const grow = amount > 0;
+  const pick = (current: number, value: number) => grow ? Math.max(current, value) : Math.min(current, value);
+
+  const horizontal = new Uint8Array(alpha.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = alpha[y * width + x];
+      for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) {
+        value = pick(value, alpha[y * width + k]);
+      }
+      horizontal[y * width + x] = value;
+    }
+  }
+
+  const result = new Uint8Array(alpha.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = horizontal[y * width + x];
+      for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++) {
+        value = pick(value, horizontal[k * width + x]);
+      }
+      result[y * width + x] = value;
+    }
+  }
+  return result;
+}
+
+// Mean over a (2r+1)² window, shrunk at the borders so edge pixels are not darkened
+function boxMean(source: Float32Array, width: number, height: number, radius: number, target = new Float32Array(source.length)) {
+  const horizontal = new Float32Array(source.length);
+  const prefix = new Float64Array(Math.max(width, height) + 1);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) prefix[x + 1] = prefix[x] + source[y * width + x];
+    for (let x = 0; x < width; x++) {
+      const from = Math.max(0, x - radius);
+      const to = Math.min(width - 1, x + radius);
+      horizontal[y * width + x] = (prefix[to + 1] - prefix[from]) / (to - from + 1);
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) prefix[y + 1] = prefix[y] + horizontal[y * width + x];
+    for (let y = 0; y < height; y++) {
+      const from = Math.max(0, y - radius);
+      const to = Math.min(height - 1, y + radius);
+      target[y * width + x] = (prefix[to + 1] - prefix[from]) / (to - from + 1);
+    }
+  }
+  return target;
+}
+
+// Two box passes come close enough to a gaussian for softening an edge
+export function featherEdge(alpha: Uint8Array, width: number, height: number, radius: number) {
+  const r = Math.round(radius);
+  if (r <= 0) return alpha.slice();
+  const blurred = boxMean(boxMean(Float32Array.from(alpha), width, height, r), width, height, r);
+  return Uint8Array.from(blurred, value => Math.round(value));
+}
+
+// Drop subject regions below `minIslandArea` and fill enclosed background regions below
+// `maxHoleArea`. Regions are 4-connected after thresholding the matte at 50%.
+export function removeSmallRegions(
+  alpha: Uint8Array,
+  width: number,
+  height: number,
+  minIslandArea: number,
+  maxHoleArea: number
+) {
+  const result = alpha.slice();
+  if (minIslandArea <= 0 && maxHoleArea <= 0) return result;
+
+  const visited = new Uint8Array(alpha.length);
+  // Doubles as the flood fill queue and the list of pixels in the current region
+  const region = new Int32Array(alpha.length);
+
+  for (let start = 0; start < alpha.length; start++) {
+    if (visited[start]) continue;
+    const isSubject = alpha[start] >= REGION_THRESHOLD;
+    let head = 0;
+    let tail = 0;
+    let touchesBorder = false;
+    const visit = (i: number) => {
+      if (visited[i] || (alpha[i] >= REGION_THRESHOLD) !== isSubject) return;
+      visited[i] = 1;
+      region[tail++] = i;
+    };
+    visit(start);
+
+    while (head < tail) {
+      const i = region[head++];
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touchesBorder = true;
+      if (x > 0) visit(i - 1);
+      if (x < width - 1) visit(i + 1);
+      if (y > 0) visit(i - width);
+      if (y < height - 1) visit(i + width);
+    }
+
+    if (isSubject && tail < minIslandArea) {
+      for (let k = 0; k < tail; k++) result[region[k]] = 0;
+    } else if (!isSubject && !touchesBorder && tail < maxHoleArea) {
+      for (let k = 0; k < tail; k++) result[region[k]] = 255;
+    }
+  }
+  return result;
+}
+
+// Squared distances along one row or column, the lower envelope of parabolas rooted at each
+// sample (Felzenszwalb & Huttenlocher). `f` holds 0 on seed pixels and a large value elsewhere.
+function distance1d(f: Float64Array, length: number, d: Float64Array, v: Int32Array, z: Float64Array) {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -Infinity;
+  z[1] = Infinity;
+  for (let q = 1; q < length; q++) {
+    let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+  k = 0;
+  for (let q = 0; q < length; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) ** 2 + f[v[k]];
+  }
+}
+
+// Exact euclidean distance from every pixel to the nearest pixel on the chosen side of the
+// 50% threshold, 0 on those pixels themselves. Used to draw outlines of a fixed width.
+export function distanceTransform(alpha: Uint8Array, width: number, height: number, toSubject: boolean) {
+  const far = 1e20;
+  const grid = Float64Array.from(alpha, value => (value >= REGION_THRESHOLD) === toSubject ? 0 : far);
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+    distance1d(f, height, d, v, z);
+    for (let y = 0; y < height; y++) grid[y * width + x] = d[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = grid[y * width + x];
+    distance1d(f, width, d, v, z);
+    for (let x = 0; x < width; x++) grid[y * width + x] = d[x];
+  }
+  return Float32Array.from(grid, Math.sqrt);
+}
+
+function luminance(pixels: Uint8ClampedArray) {
+  const guide = new Float32Array(pixels.length / 4);
+  for (let i = 0; i < guide.length; i++) {
+    guide[i] = (0.299 * pixels[4 * i] + 0.587 * pixels[4 * i + 1] + 0.114 * pixels[4 * i + 2]) / 255;
+  }
+  return guide;
+}
+
+// Guided filter (He et al.) with the grayscale image as guide. The matte follows edges of
+// the image inside the window, which recovers hair and fur the low resolution model misses.
+export function guidedFilter(alpha: Uint8Array, pixels: Uint8ClampedArray, width: number, height: number, radius: number) {
+  const r = Math.round(radius);
+  if (r <= 0) return alpha.slice();
+  const n = alpha.length;
+  const guide = luminance(pixels);
+  const matte = Float32Array.from(alpha, value => value / 255);
+  const product = new Float32Array(n);
+
+  const meanGuide = boxMean(guide, width, height, r);
+  const meanMatte = boxMean(matte, width, height, r);
+  for (let i = 0; i < n; i++) product[i] = guide[i] * guide[i];
+  const variance = boxMean(product, width, height, r);
+  for (let i = 0; i < n; i++) product[i] = guide[i] * matte[i];
+  const covariance = boxMean(product, width, height, r);
+
+  // Linear coefficients per window, written over the buffers that are no longer needed
+  const a = variance;
+  const b = covariance;
+  for (let i = 0; i < n; i++) {
+    const v = variance[i] - meanGuide[i] * meanGuide[i];
+    const cov = covariance[i] - meanGuide[i] * meanMatte[i];
+    a[i] = cov / (v + GUIDED_EPSILON);
+    b[i] = meanMatte[i] - a[i] * meanGuide[i];
+  }
+  const meanA = boxMean(a, width, height, r, meanGuide);
+  const meanB = boxMean(b, width, height, r, meanMatte);
+
+  const result = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    result[i] = Math.max(0, Math.min(255, Math.round((meanA[i] * guide[i] + meanB[i]) * 255)));
+  }
+  return result;
+}
+
+// Replace the colour of semi-transparent edge pixels with the colour of nearby solid subject,
+// so the old background does not shine through when the cutout lands on a new one.
+// Modifies `pixels` in place.
+export function decontaminateColors(
+  pixels: Uint8ClampedArray,
+  alpha: Uint8Array,
+  width: number,
+  height: number,
+  strength: number
+) {
+  if (strength <= 0) return;
+  const n = alpha.length;
+  const weights = Float32Array.from(alpha, value => value >= SOLID_ALPHA ? 1 : 0);
+  const coverage = boxMean(weights, width, height, DECONTAMINATION_RADIUS);
+  const channel = new Float32Array(n);
+  const mean = new Float32Array(n);
+
+  for (let c = 0; c < 3; c++) {
+    for (let i = 0; i < n; i++) channel[i] = pixels[4 * i + c] * weights[i];
+    boxMean(channel, width, height, DECONTAMINATION_RADIUS, mean);
+    for (let i = 0; i < n; i++) {
+      if (alpha[i] === 0 || alpha[i] >= SOLID_ALPHA || coverage[i] === 0) continue;
+      const subjectColor = mean[i] / coverage[i];
+      const t = strength * (1 - alpha[i] / 255);
+      pixels[4 * i + c] = Math.round(pixels[4 * i + c] + (subjectColor - pixels[4 * i + c]) * t);
+    }
+  }
+}
+
+// Run every enabled stage in order. `pixels` (RGBA at mask size) is needed by the guided
+// filter and the decontamination, which are skipped without it, and is modified in place.
+export function applyMatting(mask: AlphaMask, settings: MattingSettings, pixels?: Uint8ClampedArray): AlphaMask {
+  const { width, height } = mask;
+  let alpha = mask.data;
+
+  if (settings.minIslandArea > 0 || settings.maxHoleArea > 0) {
+    alpha = removeSmallRegions(alpha, width, height, settings.minIslandArea, settings.maxHoleArea);
+  }
+  if (settings.shift !== 0) {
+    alpha = shiftEdge(alpha, width, height, settings.shift);
+  }
+  if (settings.guidedRadius > 0 && pixels) {
+    alpha = guidedFilter(alpha, pixels, width, height, settings.guidedRadius);
+  }
+  if (settings.low > 0 || settings.high < 255) {
+    alpha = applyLevels(alpha, settings.low, settings.high);
+  }
+  if (settings.gamma !== 1) {
+    alpha = applyGamma(alpha, settings.gamma);
+  }
+  if (settings.feather > 0) {
+    alpha = featherEdge(alpha, width, height, settings.feather);
+  }
+  if (settings.decontaminate > 0 && pixels) {
+    decontaminateColors(pixels, alpha, width, height, settings.decontaminate);
+  }
+  return { data: alpha === mask.data ? alpha.slice() : alpha, width, height };
+}
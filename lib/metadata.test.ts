@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { prepareExif } from "./metadata";
+
+// A little-endian EXIF block laid out by hand:
+//   8    IFD0: orientation 6, pointers to the Exif and GPS IFDs, next IFD -> IFD1
+//   50   Exif IFD: PixelXDimension 4000 (SHORT), PixelYDimension 3000 (LONG)
+//   80   GPS IFD: latitude as three rationals stored at 98
+//   122  IFD1: JPEG thumbnail of 8 bytes at 152
+const IFD0 = 8;
+const EXIF_IFD = 50;
+const GPS_IFD = 80;
+const GPS_VALUES = 98;
+const IFD1 = 122;
+const THUMBNAIL = 152;
+
+function buildExif() {
+  const bytes = new Uint8Array(160);
+  const view = new DataView(bytes.buffer);
+  const directory = (offset: number, entries: [tag: number, type: number, count: number, value: number][], next = 0) => {
+    view.setUint16(offset, entries.length, true);
+    entries.forEach(([tag, type, count, value], index) => {
+      const entry = offset + 2 + 12 * index;
+      view.setUint16(entry, tag, true);
+      view.setUint16(entry + 2, type, true);
+      view.setUint32(entry + 4, count, true);
+      if (type === 3) view.setUint16(entry + 8, value, true);
+      else view.setUint32(entry + 8, value, true);
+    });
+    view.setUint32(offset + 2 + 12 * entries.length, next, true);
+  };
+
+  bytes.set([0x49, 0x49, 0x2a, 0x00]);
+  view.setUint32(4, IFD0, true);
+  directory(IFD0, [[0x0112, 3, 1, 6], [0x8769, 4, 1, EXIF_IFD], [0x8825, 4, 1, GPS_IFD]], IFD1);
+  directory(EXIF_IFD, [[0xa002, 3, 1, 4000], [0xa003, 4, 1, 3000]]);
+  directory(GPS_IFD, [[0x0002, 5, 3, GPS_VALUES]]);
+  for (let i = 0; i < 6; i++) view.setUint32(GPS_VALUES + 4 * i, 50 + i, true);
+  directory(IFD1, [[0x0201, 4, 1, THUMBNAIL], [0x0202, 4, 1, 8]]);
+  bytes.set([0xff, 0xd8, 0xff, 0xdb, 1, 2, 3, 4], THUMBNAIL);
+  return bytes;
+}
+
+function readEntry(exif: Uint8Array, ifd: number, index: number) {
+  const view = new DataView(exif.buffer);
+  const entry = ifd + 2 + 12 * index;
+  return {
+    tag: view.getUint16(entry, true),
+    type: view.getUint16(entry + 2, true),
+    value: view.getUint32(entry + 8, true)
+  };
+}
+
+const size = { width: 640, height: 480 };
+
+describe("prepareExif", () => {
+  it("drops IFD1 and its thumbnail", () => {
+    const exif = prepareExif(buildExif(), false, size)!;
+    const view = new DataView(exif.buffer);
+    const count = view.getUint16(IFD0, true);
+    expect(view.getUint32(IFD0 + 2 + 12 * count, true)).toBe(0);
+    expect(exif.subarray(IFD1, THUMBNAIL + 8).every(byte => byte === 0)).toBe(true);
+  });
+
+  it("writes the exported size into the pixel dimensions", () => {
+    const exif = prepareExif(buildExif(), false, size)!;
+    expect(readEntry(exif, EXIF_IFD, 0)).toEqual({ tag: 0xa002, type: 4, value: 640 });
+    expect(readEntry(exif, EXIF_IFD, 1)).toEqual({ tag: 0xa003, type: 4, value: 480 });
+  });
+
+  it("resets the orientation and removes the location", () => {
+    const exif = prepareExif(buildExif(), false, size)!;
+    expect(new DataView(exif.buffer).getUint16(IFD0, true)).toBe(2);
+    expect(readEntry(exif, IFD0, 0)).toMatchObject({ tag: 0x0112, value: 1 });
+    expect(readEntry(exif, IFD0, 1)).toMatchObject({ tag: 0x8769, value: EXIF_IFD });
+    expect(exif.subarray(GPS_IFD, GPS_VALUES + 24).every(byte => byte === 0)).toBe(true);
+  });
+
+  it("keeps the location when asked to, but never the thumbnail", () => {
+    const exif = prepareExif(buildExif(), true, size)!;
+    const view = new DataView(exif.buffer);
+    expect(view.getUint16(IFD0, true)).toBe(3);
+    expect(view.getUint32(GPS_VALUES, true)).toBe(50);
+    expect(view.getUint32(IFD0 + 2 + 12 * 3, true)).toBe(0);
+    expect(exif.subarray(THUMBNAIL, THUMBNAIL + 8).every(byte => byte === 0)).toBe(true);
+  });
+
+  it("gives up on blocks without a byte order mark", () => {
+    expect(prepareExif(new Uint8Array(16), false, size)).toBeUndefined();
+  });
+});
@@ -0,0 +1,491 @@
+import type { ExportFormat } from "./export";
+import { toProcessingError } from "./errors";
+
+// Orientation, colour profile and metadata of photos. Pixels are decoded upright and converted
+// to sRGB before inference, so exports are tagged as sRGB and get EXIF with the orientation reset.
+
+export interface MetadataSettings {
+  // Camera, lens, capture date and the like
+  keepExif: boolean;
+  keepXmp: boolean;
+  // Location from EXIF and XMP, only kept when asked for explicitly
+  keepGps: boolean;
+}
+
+export const DEFAULT_METADATA: MetadataSettings = { keepExif: true, keepXmp: false, keepGps: false };
+
+export interface ImageMetadata {
+  // TIFF structure of the EXIF block, without the "Exif\0\0" header of JPEG
+  exif?: Uint8Array;
+  xmp?: string;
+}
+
+// Every decode of an original goes through these options, so the model, the cutout, the mask
+// editor and the compositor all see the same upright sRGB pixels
+export const DECODE_OPTIONS: ImageBitmapOptions = { imageOrientation: "from-image", colorSpaceConversion: "default" };
+
+export async function decodeImage(source: Blob): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(source, DECODE_OPTIONS);
+  } catch (error) {
+    throw toProcessingError(error, "decode");
+  }
+}
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0, 0];
+const XMP_NAMESPACE = "http://ns.adobe.com/xap/1.0/\0";
+const XMP_KEYWORD = "XML:com.adobe.xmp";
+// A JPEG segment holds at most 65535 bytes including its 2 length bytes
+const MAX_SEGMENT = 65533;
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+const latin1 = new TextDecoder("latin1");
+const utf8 = new TextDecoder();
+
+function startsWith(bytes: Uint8Array, prefix: ArrayLike<number>, offset = 0) {
+  if (bytes.length < offset + prefix.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[offset + i] !== prefix[i]) return false;
+  }
+  return true;
+}
+
+function concat(parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function inflate(data: Uint8Array) {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function withoutExifHeader(data: Uint8Array) {
+  return startsWith(data, EXIF_HEADER) ? data.slice(EXIF_HEADER.length) : data.slice();
+}
+
+function readJpegMetadata(bytes: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = {};
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan, only entropy coded data follows
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = view.getUint16(offset + 2);
+    const segment = bytes.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xe1 && startsWith(segment, EXIF_HEADER)) {
+      metadata.exif = withoutExifHeader(segment);
+    } else if (marker === 0xe1 && startsWith(segment, ascii(XMP_NAMESPACE))) {
+      metadata.xmp = utf8.decode(segment.subarray(XMP_NAMESPACE.length));
+    }
+    offset += 2 + length;
+  }
+  return metadata;
+}
+
+async function readPngMetadata(bytes: Uint8Array): Promise<ImageMetadata> {
+  const metadata: ImageMetadata = {};
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "eXIf") {
+      metadata.exif = withoutExifHeader(data);
+    } else if (type === "iTXt" && startsWith(data, ascii(`${XMP_KEYWORD}\0`))) {
+      // keyword, compression flag and method, language tag and translated keyword, then the text
+      let position = XMP_KEYWORD.length + 1;
+      const compressed = data[position] === 1;
+      position += 2;
+      position = data.indexOf(0, position) + 1;
+      position = data.indexOf(0, position) + 1;
+      const text = data.subarray(position);
+      metadata.xmp = utf8.decode(compressed ? await inflate(text) : text);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+  return metadata;
+}
+
+function readWebpMetadata(bytes: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = {};
+  for (const chunk of readRiffChunks(bytes)) {
+    if (chunk.type === "EXIF") metadata.exif = withoutExifHeader(chunk.data);
+    else if (chunk.type === "XMP ") metadata.xmp = utf8.decode(chunk.data);
+  }
+  return metadata;
+}
+
+// EXIF and XMP of a JPEG, PNG or WebP file, other formats have none we can read
+export async function readMetadata(file: Blob): Promise<ImageMetadata> {
+  // Video results have no photo metadata worth reading the whole file for
+  if (file.type.startsWith("video/")) return {};
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  try {
+    if (startsWith(bytes, [0xff, 0xd8])) return readJpegMetadata(bytes);
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return await readPngMetadata(bytes);
+    if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) return readWebpMetadata(bytes);
+  } catch (error) {
+    console.warn("Could not read image metadata:", error);
+  }
+  return {};
+}
+
+const TAG_IMAGE_WIDTH = 0x0100;
+const TAG_IMAGE_HEIGHT = 0x0101;
+const TAG_STRIP_OFFSETS = 0x0111;
+const TAG_ORIENTATION = 0x0112;
+const TAG_STRIP_BYTE_COUNTS = 0x0117;
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// Copy of the EXIF block that matches the exported pixels: the orientation is reset because
+// the pixels are already upright, the dimensions are those of the export, and the GPS block is
+// wiped unless it should be kept. IFD1 goes entirely, its thumbnail shows the uncut photo.
+// Returns undefined for blocks we cannot parse, rather than risk leaking the location.
+export function prepareExif(
+  tiff: Uint8Array,
+  keepGps: boolean,
+  size: { width: number; height: number }
+): Uint8Array | undefined {
+  try {
+    const exif = tiff.slice();
+    const view = new DataView(exif.buffer);
+    const little = exif[0] === 0x49;
+    if (!little && exif[0] !== 0x4d) return undefined;
+    const u16 = (offset: number) => view.getUint16(offset, little);
+    const u32 = (offset: number) => view.getUint32(offset, little);
+    const valueSize = (entry: number) => (TYPE_SIZES[u16(entry + 2)] ?? 1) * u32(entry + 4);
+    // Values of up to four bytes are stored in the entry itself
+    const values = (entry: number) => {
+      const type = u16(entry + 2);
+      const count = u32(entry + 4);
+      const offset = valueSize(entry) > 4 ? u32(entry + 8) : entry + 8;
+      return Array.from({ length: count }, (_, k) => type === TYPE_SHORT ? u16(offset + 2 * k) : u32(offset + 4 * k));
+    };
+    const setLong = (entry: number, value: number) => {
+      view.setUint16(entry + 2, TYPE_LONG, little);
+      view.setUint32(entry + 4, 1, little);
+      view.setUint32(entry + 8, value, little);
+    };
+    const setDimension = (entry: number, tag: number) => {
+      if (tag === TAG_IMAGE_WIDTH || tag === TAG_PIXEL_X_DIMENSION) setLong(entry, size.width);
+      if (tag === TAG_IMAGE_HEIGHT || tag === TAG_PIXEL_Y_DIMENSION) setLong(entry, size.height);
+    };
+    // Zero a directory together with the values stored outside of it
+    const wipeDirectory = (ifd: number) => {
+      const count = u16(ifd);
+      for (let k = 0; k < count; k++) {
+        const entry = ifd + 2 + 12 * k;
+        if (valueSize(entry) > 4) exif.fill(0, u32(entry + 8), u32(entry + 8) + valueSize(entry));
+      }
+      exif.fill(0, ifd, ifd + 2 + 12 * count + 4);
+    };
+
+    const ifd0 = u32(4);
+    let count = u16(ifd0);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd0 + 2 + 12 * i;
+      const tag = u16(entry);
+      if (tag === TAG_ORIENTATION) {
+        view.setUint16(entry + 8, 1, little);
+      } else if (tag === TAG_IMAGE_WIDTH || tag === TAG_IMAGE_HEIGHT) {
+        setDimension(entry, tag);
+      } else if (tag === TAG_EXIF_IFD) {
+        const sub = u32(entry + 8);
+        for (let k = 0; k < u16(sub); k++) {
+          const subEntry = sub + 2 + 12 * k;
+          setDimension(subEntry, u16(subEntry));
+        }
+      } else if (tag === TAG_GPS_IFD && !keepGps) {
+        // Zero the GPS values and directory, then drop the pointer from IFD0
+        wipeDirectory(u32(entry + 8));
+        const end = ifd0 + 2 + 12 * count + 4;
+        exif.copyWithin(entry, entry + 12, end);
+        exif.fill(0, end - 12, end);
+        count--;
+        view.setUint16(ifd0, count, little);
+        i--;
+      }
+    }
+
+    // IFD1 describes the thumbnail, as JPEG bytes or as strips
+    const next = ifd0 + 2 + 12 * count;
+    const ifd1 = u32(next);
+    if (ifd1) {
+      const ranges: [number, number][] = [];
+      let thumbnail: number | undefined;
+      let strips: number[] = [];
+      for (let k = 0; k < u16(ifd1); k++) {
+        const entry = ifd1 + 2 + 12 * k;
+        const tag = u16(entry);
+        if (tag === TAG_THUMBNAIL_OFFSET) thumbnail = u32(entry + 8);
+        if (tag === TAG_THUMBNAIL_LENGTH && thumbnail !== undefined) ranges.push([thumbnail, thumbnail + u32(entry + 8)]);
+        if (tag === TAG_STRIP_OFFSETS) strips = values(entry);
+        if (tag === TAG_STRIP_BYTE_COUNTS) values(entry).forEach((length, index) => ranges.push([strips[index], strips[index] + length]));
+      }
+      ranges.forEach(([from, to]) => exif.fill(0, from, to));
+      wipeDirectory(ifd1);
+      view.setUint32(next, 0, little);
+    }
+    return exif;
+  } catch {
+    return undefined;
+  }
+}
+
+// Drop the exif:GPS* properties, both as attributes and as elements
+export function stripXmpLocation(xmp: string) {
+  return xmp
+    .replace(/\s(?:exif|exifEX):GPS\w*="[^"]*"/g, "")
+    .replace(/<((?:exif|exifEX):GPS\w*)\b[^>]*\/>/g, "")
+    .replace(/<((?:exif|exifEX):GPS\w*)\b[^>]*>[\s\S]*?<\/\1>/g, "");
+}
+
+let srgbProfile: Uint8Array | null = null;
+
+// Minimal ICC v2 display profile for sRGB: D50 adapted primaries and a sampled sRGB curve.
+// Generated once instead of shipping a binary file.
+export function getSrgbProfile() {
+  if (srgbProfile) return srgbProfile;
+
+  const fixed = (value: number) => Math.round(value * 65536);
+  const xyz = (x: number, y: number, z: number) => {
+    const data = new DataView(new ArrayBuffer(20));
+    ascii("XYZ ").forEach((c, i) => data.setUint8(i, c));
+    data.setInt32(8, fixed(x));
+    data.setInt32(12, fixed(y));
+    data.setInt32(16, fixed(z));
+    return new Uint8Array(data.buffer);
+  };
+  const description = "sRGB";
+  // ASCII description, then empty Unicode and ScriptCode descriptions
+  const desc = new Uint8Array(12 + description.length + 1 + 11 + 67);
+  desc.set(ascii("desc"));
+  new DataView(desc.buffer).setUint32(8, description.length + 1);
+  desc.set(ascii(description), 12);
+  const notice = "Public Domain";
+  const copyright = new Uint8Array(8 + notice.length + 1);
+  copyright.set(ascii("text"));
+  copyright.set(ascii(notice), 8);
+  const samples = 1024;
+  const curve = new DataView(new ArrayBuffer(12 + 2 * samples));
+  ascii("curv").forEach((c, i) => curve.setUint8(i, c));
+  curve.setUint32(8, samples);
+  for (let i = 0; i < samples; i++) {
+    const v = i / (samples - 1);
+    const linear = v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+    curve.setUint16(12 + 2 * i, Math.round(linear * 65535));
+  }
+  const trc = new Uint8Array(curve.buffer);
+
+  const tags: [string, Uint8Array][] = [
+    ["desc", desc],
+    ["cprt", copyright],
+    ["wtpt", xyz(0.9642, 1, 0.8249)],
+    ["rXYZ", xyz(0.4360747, 0.2225045, 0.0139322)],
+    ["gXYZ", xyz(0.3850649, 0.7168786, 0.0971045)],
+    ["bXYZ", xyz(0.1430804, 0.0606169, 0.7141733)],
+    ["rTRC", trc],
+    ["gTRC", trc],
+    ["bTRC", trc]
+  ];
+  // The three curves share one copy of the data
+  const unique = [...new Set(tags.map(([, data]) => data))];
+  const tableSize = 4 + 12 * tags.length;
+  const offsets = new Map<Uint8Array, number>();
+  let offset = 128 + tableSize;
+  for (const data of unique) {
+    offsets.set(data, offset);
+    offset += Math.ceil(data.length / 4) * 4;
+  }
+
+  const profile = new Uint8Array(offset);
+  const view = new DataView(profile.buffer);
+  view.setUint32(0, profile.length);
+  view.setUint32(8, 0x02100000);
+  profile.set(ascii("mntrRGB XYZ "), 12);
+  profile.set(ascii("acsp"), 36);
+  view.setInt32(68, fixed(0.9642));
+  view.setInt32(72, fixed(1));
+  view.setInt32(76, fixed(0.8249));
+  view.setUint32(128, tags.length);
+  tags.forEach(([signature, data], i) => {
+    profile.set(ascii(signature), 132 + 12 * i);
+    view.setUint32(136 + 12 * i, offsets.get(data) as number);
+    view.setUint32(140 + 12 * i, data.length);
+  });
+  for (const data of unique) profile.set(data, offsets.get(data) as number);
+
+  srgbProfile = profile;
+  return profile;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(ascii(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// Colour chunks the encoder may have written itself, a PNG may only carry one of each
+const PNG_REPLACED = ["sRGB", "iCCP", "gAMA", "cHRM", "eXIf"];
+
+function writePng(bytes: Uint8Array, exif?: Uint8Array, xmp?: string) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The signature and IHDR come first, the new chunks go right after them
+  const ihdrEnd = 8 + 12 + view.getUint32(8);
+  const parts = [bytes.subarray(0, ihdrEnd), pngChunk("sRGB", Uint8Array.of(0))];
+  if (exif) parts.push(pngChunk("eXIf", exif));
+  if (xmp) parts.push(pngChunk("iTXt", concat([ascii(`${XMP_KEYWORD}\0\0\0\0\0`), new TextEncoder().encode(xmp)])));
+
+  let offset = ihdrEnd;
+  while (offset + 8 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (!PNG_REPLACED.includes(latin1.decode(bytes.subarray(offset + 4, offset + 8)))) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  return concat(parts);
+}
+
+function jpegSegment(marker: number, data: Uint8Array) {
+  const segment = new Uint8Array(4 + data.length);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  new DataView(segment.buffer).setUint16(2, data.length + 2);
+  segment.set(data, 4);
+  return segment;
+}
+
+function writeJpeg(bytes: Uint8Array, exif?: Uint8Array, xmp?: string) {
+  // After SOI and the JFIF header, if there is one
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt += 2 + new DataView(bytes.buffer, bytes.byteOffset).getUint16(4);
+  }
+  const segments: Uint8Array[] = [];
+  const exifData = exif && concat([Uint8Array.from(EXIF_HEADER), exif]);
+  if (exifData && exifData.length <= MAX_SEGMENT) segments.push(jpegSegment(0xe1, exifData));
+  const xmpData = xmp && concat([ascii(XMP_NAMESPACE), new TextEncoder().encode(xmp)]);
+  if (xmpData && xmpData.length <= MAX_SEGMENT) segments.push(jpegSegment(0xe1, xmpData));
+  // ICC_PROFILE, then the number of this chunk and the chunk count
+  segments.push(jpegSegment(0xe2, concat([ascii("ICC_PROFILE\0"), Uint8Array.of(1, 1), getSrgbProfile()])));
+  return concat([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+}
+
+interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readRiffChunks(bytes: Uint8Array): RiffChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ type: latin1.decode(bytes.subarray(offset, offset + 4)), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    // Chunks are padded to an even size
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+}
+
+function riffChunk({ type, data }: RiffChunk) {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  chunk.set(ascii(type));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+// Metadata needs the extended format: a VP8X header with flags, then ICCP, the image, EXIF and XMP
+function writeWebp(bytes: Uint8Array, width: number, height: number, exif?: Uint8Array, xmp?: string) {
+  const chunks = readRiffChunks(bytes);
+  const image = chunks.filter(chunk => !["VP8X", "ICCP", "EXIF", "XMP "].includes(chunk.type));
+  const existing = chunks.find(chunk => chunk.type === "VP8X");
+  const lossless = chunks.find(chunk => chunk.type === "VP8L");
+  // Alpha is an ALPH chunk for lossy images and a header bit of the lossless bitstream
+  const hasAlpha = existing
+    ? (existing.data[0] & 0x10) !== 0
+    : chunks.some(chunk => chunk.type === "ALPH") || (!!lossless && (lossless.data[4] & 0x10) !== 0);
+
+  const header = new Uint8Array(10);
+  header[0] = 0x20 | (hasAlpha ? 0x10 : 0) | (exif ? 0x08 : 0) | (xmp ? 0x04 : 0) | (existing ? existing.data[0] & 0x02 : 0);
+  for (let i = 0; i < 3; i++) {
+    header[4 + i] = ((width - 1) >> (8 * i)) & 0xff;
+    header[7 + i] = ((height - 1) >> (8 * i)) & 0xff;
+  }
+  const body = concat([
+    riffChunk({ type: "VP8X", data: header }),
+    riffChunk({ type: "ICCP", data: getSrgbProfile() }),
+    ...image.map(riffChunk),
+    ...(exif ? [riffChunk({ type: "EXIF", data: exif })] : []),
+    ...(xmp ? [riffChunk({ type: "XMP ", data: new TextEncoder().encode(xmp) })] : [])
+  ]);
+  const riff = new Uint8Array(12);
+  riff.set(ascii("RIFF"));
+  new DataView(riff.buffer).setUint32(4, body.length + 4, true);
+  riff.set(ascii("WEBP"), 8);
+  return concat([riff, body]);
+}
+
+// Tag an encoded export as sRGB and carry over the metadata the settings allow. AVIF is
+// returned as it is, browsers already write its colour information.
+export async function writeMetadata(
+  blob: Blob,
+  format: ExportFormat,
+  size: { width: number; height: number },
+  metadata: ImageMetadata,
+  settings: MetadataSettings
+): Promise<Blob> {
+  if (format === "avif") return blob;
+  const exif = settings.keepExif && metadata.exif ? prepareExif(metadata.exif, settings.keepGps, size) : undefined;
+  const xmp = settings.keepXmp && metadata.xmp
+    ? settings.keepGps ? metadata.xmp : stripXmpLocation(metadata.xmp)
+    : undefined;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const output = format === "png"
+    ? writePng(bytes, exif, xmp)
+    : format === "jpeg"
+      ? writeJpeg(bytes, exif, xmp)
+      : writeWebp(bytes, size.width, size.height, exif, xmp);
+  return new Blob([output], { type: blob.type });
+}
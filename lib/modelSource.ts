@@ -0,0 +1,112 @@
+import type { ModelDefinition } from "./models";
+
+// Where model weights, processor configs and the ONNX runtime binaries come from.
+// Configured at build time through Vite env variables, see "Self-hosting models" in the README.
+
+export interface ModelSource {
+  // Folder or same-origin URL holding one `<modelId>/` folder per model, e.g. "/models/"
+  localModelPath?: string;
+  // Set to false to never reach out to the Hugging Face hub (air-gapped installs)
+  allowRemoteModels: boolean;
+  // Folder or same-origin URL serving the onnxruntime-web .wasm files
+  wasmPaths?: string;
+}
+
+// SHA-256 hex digests keyed by file path inside the model folder, e.g. "onnx/model.onnx"
+export type ModelChecksums = Record<string, string>;
+
+// Name of the optional checksum manifest next to a self-hosted model
+const CHECKSUM_MANIFEST = "checksums.json";
+
+function withTrailingSlash(path: string) {
+  return path.endsWith("/") ? path : `${path}/`;
+}
+
+export function getModelSource(): ModelSource {
+  const { VITE_MODEL_BASE_URL, VITE_ALLOW_REMOTE_MODELS, VITE_ONNX_WASM_PATH } = import.meta.env;
+  return {
+    localModelPath: VITE_MODEL_BASE_URL ? withTrailingSlash(VITE_MODEL_BASE_URL) : undefined,
+    allowRemoteModels: VITE_ALLOW_REMOTE_MODELS !== "false",
+    wasmPaths: VITE_ONNX_WASM_PATH ? withTrailingSlash(VITE_ONNX_WASM_PATH) : undefined
+  };
+}
+
+// Checksums from the registry, extended with the manifest shipped alongside a self-hosted model
+export async function loadChecksums(definition: ModelDefinition, source: ModelSource): Promise<ModelChecksums> {
+  const checksums: ModelChecksums = { ...definition.checksums };
+  if (!source.localModelPath) return checksums;
+
+  try {
+    const response = await fetch(`${source.localModelPath}${definition.modelId}/${CHECKSUM_MANIFEST}`);
+    if (response.ok) {
+      Object.assign(checksums, await response.json());
+    }
+  } catch (error) {
+    console.warn(`Could not read ${CHECKSUM_MANIFEST} for ${definition.modelId}:`, error);
+  }
+  return checksums;
+}
+
+const registeredChecksums = new Map<string, ModelChecksums>();
+
+export function registerChecksums(modelId: string, checksums: ModelChecksums) {
+  registeredChecksums.set(modelId, checksums);
+}
+
+// Both local (`<base>/<modelId>/<file>`) and hub (`<host>/<modelId>/resolve/<revision>/<file>`)
+// URLs end with the file path, so match on the model id plus that suffix
+function findExpectedChecksum(url: string) {
+  const { pathname } = new URL(url, self.location.href);
+  for (const [modelId, checksums] of registeredChecksums) {
+    if (!pathname.includes(`/${modelId}/`)) continue;
+    for (const [file, checksum] of Object.entries(checksums)) {
+      if (pathname.endsWith(`/${file}`)) return { file, checksum: checksum.toLowerCase() };
+    }
+  }
+  return null;
+}
+
+async function sha256(chunks: Uint8Array[]) {
+  const size = chunks.reduce((total, chunk) => total + chunk.length, 0);
+  const buffer = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.length;
+  }
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Wrap `fetch` so files with a registered checksum are hashed while they stream through.
+// The body is passed on untouched (download progress keeps working) and errors out at the
+// end when the digest does not match, which fails the model load instead of running bad weights.
+export function createVerifyingFetch(baseFetch: typeof fetch): typeof fetch {
+  return async (input, init) => {
+    const response = await baseFetch(input, init);
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    const expected = findExpectedChecksum(url);
+    if (!expected || !response.ok || !response.body) return response;
+
+    const chunks: Uint8Array[] = [];
+    const verified = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        chunks.push(chunk);
+        controller.enqueue(chunk);
+      },
+      async flush() {
+        const actual = await sha256(chunks);
+        chunks.length = 0;
+        if (actual !== expected.checksum) {
+          throw new Error(`Checksum mismatch for ${expected.file}, the model files may be corrupted or tampered with`);
+        }
+      }
+    }));
+
+    return new Response(verified, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  };
+}
@@ -0,0 +1,92 @@
+// Registry of the background removal models the pipeline knows how to run.
+// Adding a model only needs a new entry here, lib/process.ts reads everything it
+// needs (ids, configs, tensor names, devices) from the definition.
+
+export type ModelDevice = "webgpu" | "wasm";
+
+export interface ModelOverrides {
+  modelConfig?: Record<string, unknown>;
+  processorConfig?: Record<string, unknown>;
+}
+
+export interface ModelDefinition {
+  // Registry key, stable across versions of the app
+  key: string;
+  // Hugging Face repository id, also the folder name under VITE_MODEL_BASE_URL when self-hosting
+  modelId: string;
+  label: string;
+  description: string;
+  license: string;
+  // Resolution the processor resizes every image to before inference
+  inputSize: { width: number; height: number };
+  inputName: string;
+  outputName: string;
+  // Tried in order, the first device that initializes wins
+  devices: ModelDevice[];
+  revision?: string;
+  // Passed as `config` to AutoModel.from_pretrained
+  modelConfig?: Record<string, unknown>;
+  // Passed as `config` to AutoProcessor.from_pretrained, `size` is filled in from inputSize.
+  // Leave it out to use the preprocessor_config.json of the repository as is.
+  processorConfig?: Record<string, unknown>;
+  // SHA-256 hex digests of model files keyed by path inside the repository, e.g. "onnx/model.onnx".
+  // Files listed here fail to load when their content does not match.
+  checksums?: Record<string, string>;
+  // iOS Safari cannot run every configuration, these are merged over the defaults there
+  ios?: ModelOverrides;
+}
+
+export const MODELS: ModelDefinition[] = [
+  {
+    key: "rmbg-1.4",
+    modelId: "briaai/RMBG-1.4",
+    label: "RMBG 1.4",
+    description: "General purpose background removal, works in every browser",
+    license: "bria-rmbg-1.4 (non-commercial)",
+    inputSize: { width: 1024, height: 1024 },
+    inputName: "input",
+    outputName: "output",
+    devices: ["wasm"],
+    revision: "main",
+    processorConfig: {
+      do_normalize: true,
+      do_pad: true,
+      do_rescale: true,
+      do_resize: true,
+      image_mean: [0.5, 0.5, 0.5],
+      feature_extractor_type: "ImageFeatureExtractor",
+      image_std: [0.5, 0.5, 0.5],
+      resample: 2,
+      rescale_factor: 0.00392156862745098
+    },
+    ios: {
+      modelConfig: { model_type: "custom" },
+      processorConfig: {
+        do_pad: false,
+        image_std: [1, 1, 1]
+      }
+    }
+  },
+  {
+    key: "modnet",
+    modelId: "Xenova/modnet",
+    label: "MODNet",
+    description: "Portrait matting, fast on GPUs with WebGPU support",
+    license: "Apache-2.0",
+    inputSize: { width: 512, height: 512 },
+    inputName: "input",
+    outputName: "output",
+    devices: ["webgpu"],
+    modelConfig: {
+      model_type: "modnet",
+      architectures: ["MODNet"]
+    }
+  }
+];
+
+export const DEFAULT_MODEL_KEY = "rmbg-1.4";
+
+export function getModelDefinition(key?: string): ModelDefinition {
+  const definition = MODELS.find(model => model.key === key || model.modelId === key);
+  return definition ?? (MODELS.find(model => model.key === DEFAULT_MODEL_KEY) as ModelDefinition);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { MAX_PRESET_SIZE, builtInPresets, parsePresets, serializePresets } from "./presets";
+
+const preset = {
+  id: "custom-1",
+  name: "Banner",
+  width: 1500,
+  height: 500,
+  padding: 5,
+  alignment: "center",
+  background: { type: "color", color: "#ffffff" },
+  format: "png",
+  quality: 0.9
+};
+
+const parse = (...presets: unknown[]) => parsePresets(JSON.stringify({ version: 1, presets }));
+
+describe("parsePresets", () => {
+  it("reads exported presets back with new ids", () => {
+    const presets = parsePresets(serializePresets(builtInPresets));
+    expect(presets.map(({ id: _, ...rest }) => rest)).toEqual(builtInPresets.map(({ id: _, ...rest }) => rest));
+    expect(presets.every(({ id }) => id.startsWith("custom-"))).toBe(true);
+  });
+
+  it("accepts every background that can be written to JSON", () => {
+    const backgrounds = [
+      { type: "transparent" },
+      { type: "gradient", kind: "radial", angle: 0, stops: [{ offset: 0, color: "#000" }, { offset: 1, color: "#fff" }] },
+      { type: "pattern", pattern: "dots", color: "#c0c0c0", background: "#ffffff", spacing: 5, thickness: 20 }
+    ];
+    const presets = parse(...backgrounds.map(background => ({ ...preset, background })));
+    expect(presets.map(({ background }) => background)).toEqual(backgrounds);
+  });
+
+  it("clamps the size and drops unknown fields", () => {
+    const [result] = parse({ ...preset, width: 100000, height: 499.6, padding: 90, quality: 3, extra: true });
+    expect(result).toMatchObject({ width: MAX_PRESET_SIZE, height: 500, padding: 40, quality: 1 });
+    expect(result).not.toHaveProperty("extra");
+  });
+
+  it.each([
+    [{ ...preset, background: { type: "color", color: 255 } }, 'Preset 1 "Banner" has a color background without a color'],
+    [{ ...preset, background: { type: "gradient", kind: "linear", angle: 90, stops: [] } }, "has a gradient without color stops"],
+    [{ ...preset, background: { type: "gradient", kind: "linear", angle: 90, stops: [{ offset: 2, color: "#fff" }] } }, "gradient stop"],
+    [{ ...preset, background: { type: "pattern", pattern: "dots", color: "#000", background: "#fff" } }, "spacing"],
+    [{ ...preset, background: { type: "image" } }, 'unsupported background type "image"'],
+    [{ ...preset, width: "wide" }, "width and height"],
+    [{ ...preset, format: "bmp" }, 'unsupported format "bmp"']
+  ])("rejects invalid presets with the reason", (invalid, message) => {
+    expect(() => parse(invalid)).toThrow(message);
+  });
+
+  it("rejects the whole file and names the invalid preset", () => {
+    expect(() => parse(preset, { ...preset, name: "" })).toThrow("Preset 2 has no name");
+  });
+
+  it("rejects files without presets", () => {
+    expect(() => parsePresets("{")).toThrow("not valid JSON");
+    expect(() => parse()).toThrow("No presets found");
+  });
+});
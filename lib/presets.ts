@@ -0,0 +1,277 @@
+import { patternOptions, renderComposite, type BackgroundSpec, type CompositeSpec } from "./compositor";
+import { DEFAULT_EXPORT, exportFormats, exportToFile, type ExportFormat } from "./export";
+import { findCropBounds } from "./crop";
+
+// Named output shapes for marketplaces and social platforms. A preset crops the cutout to the
+// subject, places it on a canvas of fixed size and exports it, the same way for every image.
+
+export type PresetAlignment = "center" | "top" | "bottom";
+
+// Only backgrounds that can be written to JSON, images and the portrait blur need files
+export type PresetBackground = Extract<BackgroundSpec, { type: "transparent" | "color" | "gradient" | "pattern" }>;
+
+export interface OutputPreset {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  // Space kept free around the subject, as a percentage of the shorter side of the canvas
+  padding: number;
+  alignment: PresetAlignment;
+  background: PresetBackground;
+  format: ExportFormat;
+  // 0..1, ignored by PNG
+  quality: number;
+}
+
+// Larger canvases fail to allocate in several browsers
+export const MAX_PRESET_SIZE = 8192;
+export const MAX_PRESET_PADDING = 40;
+
+export const builtInPresets: OutputPreset[] = [
+  {
+    id: "marketplace",
+    name: "Amazon / Shopify (2000×2000, white)",
+    width: 2000,
+    height: 2000,
+    padding: 5,
+    alignment: "center",
+    background: { type: "color", color: "#ffffff" },
+    format: "jpeg",
+    quality: 0.92
+  },
+  {
+    id: "instagram-portrait",
+    name: "Instagram portrait (1080×1350)",
+    width: 1080,
+    height: 1350,
+    padding: 8,
+    alignment: "bottom",
+    background: { type: "color", color: "#ffffff" },
+    format: "jpeg",
+    quality: 0.9
+  },
+  {
+    id: "instagram-square",
+    name: "Instagram square (1080×1080)",
+    width: 1080,
+    height: 1080,
+    padding: 8,
+    alignment: "center",
+    background: { type: "color", color: "#ffffff" },
+    format: "jpeg",
+    quality: 0.9
+  },
+  {
+    id: "open-graph",
+    name: "Open Graph (1200×630)",
+    width: 1200,
+    height: 630,
+    padding: 6,
+    alignment: "center",
+    background: { type: "color", color: "#f3f4f6" },
+    format: "png",
+    quality: 0.9
+  },
+  {
+    id: "sticker",
+    name: "Sticker (512×512, transparent)",
+    width: 512,
+    height: 512,
+    padding: 3,
+    alignment: "center",
+    background: { type: "transparent" },
+    format: "webp",
+    quality: 0.9
+  }
+];
+
+export function isBuiltInPreset(id: string) {
+  return builtInPresets.some(preset => preset.id === id);
+}
+
+export function createPresetId() {
+  return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Place the subject of the cutout on the preset's canvas and draw the background behind it.
+// Edits keep their effects, subject style and background, the preset decides where the subject
+// goes. A portrait blur only lines up with the photo in its own framing, the preset's background
+// stands in for it.
+export async function renderPreset(cutout: Blob, preset: OutputPreset, edits?: CompositeSpec): Promise<OffscreenCanvas> {
+  const bitmap = await createImageBitmap(cutout);
+  const source = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const sourceCtx = source.getContext("2d");
+  if (!sourceCtx) throw new Error("Could not get 2d context");
+  sourceCtx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const bounds = findCropBounds(source)
+    ?? { x: 0, y: 0, width: source.width, height: source.height };
+
+  const { width, height } = preset;
+  const padding = (preset.padding / 100) * Math.min(width, height);
+  const scale = Math.min(
+    Math.max(1, width - 2 * padding) / bounds.width,
+    Math.max(1, height - 2 * padding) / bounds.height
+  );
+  const drawWidth = bounds.width * scale;
+  const drawHeight = bounds.height * scale;
+  const y = preset.alignment === "top"
+    ? padding
+    : preset.alignment === "bottom"
+      ? height - padding - drawHeight
+      : (height - drawHeight) / 2;
+
+  const placed = new OffscreenCanvas(width, height);
+  const ctx = placed.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2d context");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, bounds.x, bounds.y, bounds.width, bounds.height, (width - drawWidth) / 2, y, drawWidth, drawHeight);
+  const keepsBackground = edits && edits.background.type !== "transparent" && edits.background.type !== "portrait";
+  return renderComposite(placed, {
+    background: keepsBackground ? edits.background : preset.background,
+    effects: edits?.effects ?? [],
+    subjectStyle: edits?.subjectStyle
+  });
+}
+
+function slugify(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "preset";
+}
+
+export async function exportWithPreset(
+  cutout: Blob,
+  sourceName: string,
+  preset: OutputPreset,
+  original?: Blob,
+  metadata = DEFAULT_EXPORT.metadata,
+  edits?: CompositeSpec
+): Promise<File> {
+  const canvas = await renderPreset(cutout, preset, edits);
+  return exportToFile(canvas, sourceName, {
+    ...DEFAULT_EXPORT,
+    format: preset.format,
+    quality: preset.quality,
+    background: preset.background.type === "color" ? preset.background.color : DEFAULT_EXPORT.background,
+    fileName: `{name}-${slugify(preset.name)}`,
+    metadata
+  }, original);
+}
+
+export function serializePresets(presets: OutputPreset[]) {
+  return JSON.stringify({ version: 1, presets }, null, 2);
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Why a background from a preset file cannot be drawn, or null if it can
+function checkBackground(value: unknown): string | null {
+  if (typeof value !== "object" || value === null) return "has no background";
+  const background = value as Record<string, unknown>;
+  switch (background.type) {
+    case "transparent":
+      return null;
+    case "color":
+      return isString(background.color) ? null : "has a color background without a color";
+    case "gradient": {
+      const { kind, angle, stops } = background;
+      if (kind !== "linear" && kind !== "radial") return "has a gradient that is neither linear nor radial";
+      if (!isNumber(angle)) return "has a gradient without an angle";
+      if (!Array.isArray(stops) || stops.length === 0) return "has a gradient without color stops";
+      const valid = stops.every(stop => typeof stop === "object" && stop !== null
+        && isNumber(stop.offset) && stop.offset >= 0 && stop.offset <= 1
+        && isString(stop.color));
+      return valid ? null : "has a gradient stop without a color or an offset between 0 and 1";
+    }
+    case "pattern": {
+      const { pattern, color, spacing, thickness } = background;
+      if (!patternOptions.some(option => option.id === pattern)) return "has an unknown pattern";
+      if (!isString(color) || !isString(background.background)) return "has a pattern without its colors";
+      if (!isNumber(spacing) || spacing <= 0 || !isNumber(thickness) || thickness <= 0) {
+        return "has a pattern without a positive spacing and thickness";
+      }
+      return null;
+    }
+    default:
+      return `has an unsupported background type "${String(background.type)}"`;
+  }
+}
+
+// Why a preset from a file cannot be used, or null if it can
+function checkPreset(value: unknown): string | null {
+  if (typeof value !== "object" || value === null) return "is not an object";
+  const preset = value as Record<string, unknown>;
+  if (!isString(preset.name) || !preset.name.trim()) return "has no name";
+  if (!isNumber(preset.width) || preset.width < 1 || !isNumber(preset.height) || preset.height < 1) {
+    return "needs a width and height of at least 1 pixel";
+  }
+  if (!isNumber(preset.padding)) return "has no padding";
+  if (!["center", "top", "bottom"].includes(preset.alignment as string)) return "has an unknown alignment";
+  if (!exportFormats.some(format => format.id === preset.format)) return `has an unsupported format "${String(preset.format)}"`;
+  if (!isNumber(preset.quality)) return "has no quality";
+  return checkBackground(preset.background);
+}
+
+// Only the known fields are kept, numbers are brought into the range the editor offers
+function normalizePreset(preset: OutputPreset): OutputPreset {
+  return {
+    id: createPresetId(),
+    name: preset.name.trim(),
+    width: clamp(Math.round(preset.width), 1, MAX_PRESET_SIZE),
+    height: clamp(Math.round(preset.height), 1, MAX_PRESET_SIZE),
+    padding: clamp(preset.padding, 0, MAX_PRESET_PADDING),
+    alignment: preset.alignment,
+    background: normalizeBackground(preset.background),
+    format: preset.format,
+    quality: clamp(preset.quality, 0.1, 1)
+  };
+}
+
+function normalizeBackground(background: PresetBackground): PresetBackground {
+  switch (background.type) {
+    case "transparent":
+      return { type: "transparent" };
+    case "color":
+      return { type: "color", color: background.color };
+    case "gradient":
+      return {
+        type: "gradient",
+        kind: background.kind,
+        angle: background.angle,
+        stops: background.stops.map(({ offset, color }) => ({ offset, color }))
+      };
+    case "pattern":
+      return {
+        type: "pattern",
+        pattern: background.pattern,
+        color: background.color,
+        background: background.background,
+        spacing: background.spacing,
+        thickness: background.thickness
+      };
+  }
+}
+
+// Read presets shared as JSON. They always get new ids, so importing twice or importing a
+// copy of a built-in preset never overwrites anything. A file with any invalid preset is
+// rejected as a whole, naming the first problem.
+export function parsePresets(json: string): OutputPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown })?.presets;
+  if (!Array.isArray(list) || list.length === 0) throw new Error("No presets found in the file");
+  list.forEach((value, index) => {
+    const problem = checkPreset(value);
+    if (problem) {
+      const name = isString(value?.name) && value.name.trim() ? ` "${value.name.trim()}"` : "";
+      throw new Error(`Preset ${index + 1}${name} ${problem}`);
+    }
+  });
+  return (list as OutputPreset[]).map(normalizePreset);
+}
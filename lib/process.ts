@@ -7,24 +7,93 @@ import {
   Processor
 } from "@huggingface/transformers";
 
-// Initialize different model configurations
-const WEBGPU_MODEL_ID = "Xenova/modnet";
-const FALLBACK_MODEL_ID = "briaai/RMBG-1.4";
+import {
+  DEFAULT_MODEL_KEY,
+  getModelDefinition,
+  type ModelDefinition,
+  type ModelDevice
+} from "./models";
+import { getModelSource, loadChecksums, registerChecksums } from "./modelSource";
+import { decodeImage } from "./metadata";
+import {
+  BackendUnavailableError,
+  ModelLoadError,
+  toProcessingError,
+  type ProcessingError
+} from "./errors";
+
+// The error classes are part of this module's API, they live apart so the main thread can
+// use them without pulling in transformers.js
+export * from "./errors";
 
 interface ModelState {
   model: PreTrainedModel | null;
   processor: Processor | null;
+  definition: ModelDefinition;
+  device: ModelDevice;
   isWebGPUSupported: boolean;
-  currentModelId: string;
   isIOS: boolean;
 }
 
-interface ModelInfo {
+export interface ModelInfo {
   currentModelId: string;
+  currentModelKey: string;
+  device: ModelDevice;
   isWebGPUSupported: boolean;
   isIOS: boolean;
 }
 
+// Lifecycle of the model, reported so the UI can tell downloading, compiling and inference apart
+export type ModelEvent =
+  | { type: "download"; modelId: string; file: string; loaded: number; total: number }
+  | { type: "compile"; modelId: string; device: ModelDevice }
+  | { type: "ready"; modelId: string; device: ModelDevice }
+  | { type: "inference-start"; modelId: string; device: ModelDevice }
+  | { type: "inference-end"; modelId: string; device: ModelDevice; duration: number };
+
+// What transformers.js reports while fetching model files, the alpha does not export a type for it
+type LoadProgress =
+  | { status: "initiate" | "download" | "done"; name: string; file: string }
+  | { status: "progress"; name: string; file: string; progress: number; loaded: number; total: number }
+  | { status: "ready"; task: string; model: string };
+
+// Browser APIs missing from the DOM typings: WebGPU and the Device Memory API (Chromium only)
+type ExtendedNavigator = Navigator & {
+  gpu?: { requestAdapter(): Promise<unknown> };
+  deviceMemory?: number;
+};
+
+const modelListeners = new Set<(event: ModelEvent) => void>();
+
+export function subscribeModelEvents(listener: (event: ModelEvent) => void) {
+  modelListeners.add(listener);
+  return () => {
+    modelListeners.delete(listener);
+  };
+}
+
+function emitModelEvent(event: ModelEvent) {
+  modelListeners.forEach(listener => listener(event));
+}
+
+// Turn the progress callbacks of transformers.js into download events, at most one per
+// percent and file so a 170MB download does not flood the listeners
+function createProgressCallback(definition: ModelDefinition, device: ModelDevice) {
+  const lastPercent = new Map<string, number>();
+  return (progress: LoadProgress) => {
+    const { modelId } = definition;
+    if (progress.status === "progress") {
+      const percent = Math.floor(progress.progress ?? 0);
+      if (lastPercent.get(progress.file) === percent) return;
+      lastPercent.set(progress.file, percent);
+      emitModelEvent({ type: "download", modelId, file: progress.file, loaded: progress.loaded, total: progress.total });
+    } else if (progress.status === "done" && /\.onnx$/.test(progress.file)) {
+      // The weights are in, the inference session is created next
+      emitModelEvent({ type: "compile", modelId, device });
+    }
+  };
+}
+
 // iOS detection
 const isIOS = () => {
   return [
@@ -35,186 +104,348 @@ const isIOS = () => {
     'iPhone',
     'iPod'
   ].includes(navigator.platform)
-  || (navigator.userAgent.includes("Mac") && "ontouchend" in document);
+  // `document` is not available inside a worker, fall back to the touch point count there
+  || (navigator.userAgent.includes("Mac") && (typeof document !== "undefined"
+    ? "ontouchend" in document
+    : navigator.maxTouchPoints > 1));
 };
 
 const state: ModelState = {
   model: null,
   processor: null,
+  definition: getModelDefinition(DEFAULT_MODEL_KEY),
+  device: "wasm",
   isWebGPUSupported: false,
-  currentModelId: FALLBACK_MODEL_ID,
   isIOS: isIOS()
 };
 
-// Initialize WebGPU with proper error handling
-async function initializeWebGPU() {
-  const gpu = (navigator as any).gpu;
+// Check that we can actually get a WebGPU adapter, not just that the API exists
+async function hasWebGPUAdapter() {
+  const { gpu } = navigator as ExtendedNavigator;
   if (!gpu) {
     return false;
   }
-
   try {
-    // Test if we can actually create an adapter
-    const adapter = await gpu.requestAdapter();
-    if (!adapter) {
-      return false;
-    }
+    return Boolean(await gpu.requestAdapter());
+  } catch {
+    return false;
+  }
+}
+
+async function loadModel(definition: ModelDefinition, device: ModelDevice) {
+  const overrides = state.isIOS ? definition.ios : undefined;
 
-    // Configure environment for WebGPU
-    env.allowLocalModels = false;
-    if (env.backends?.onnx?.wasm) {
-      env.backends.onnx.wasm.proxy = false;
+  // Self-hosted files are tried first, the hub is only used when allowed and the file is missing
+  const source = getModelSource();
+  env.allowLocalModels = Boolean(source.localModelPath);
+  if (source.localModelPath) {
+    env.localModelPath = source.localModelPath;
+  }
+  env.allowRemoteModels = source.allowRemoteModels;
+  if (env.backends?.onnx?.wasm) {
+    // This module already runs in the engine's worker, a proxy worker of onnxruntime would only
+    // copy every tensor once more (and it does not support WebGPU at all)
+    env.backends.onnx.wasm.proxy = false;
+    if (source.wasmPaths) {
+      env.backends.onnx.wasm.wasmPaths = source.wasmPaths;
     }
+  }
+  registerChecksums(definition.modelId, await loadChecksums(definition, source));
 
-    // Wait for WebAssembly initialization
-    await new Promise(resolve => setTimeout(resolve, 100));
+  const modelConfig = definition.modelConfig || overrides?.modelConfig
+    ? { ...definition.modelConfig, ...overrides?.modelConfig }
+    : undefined;
+  // Model and processor come from the same pinned revision, so their files always match
+  const model = await AutoModel.from_pretrained(definition.modelId, {
+    ...(definition.revision ? { revision: definition.revision } : {}),
+    ...(device === "webgpu" ? { device } : {}),
+    ...(modelConfig ? { config: modelConfig } : {}),
+    progress_callback: createProgressCallback(definition, device)
+  });
 
-    // Initialize model with WebGPU
-    state.model = await AutoModel.from_pretrained(WEBGPU_MODEL_ID, {
-      device: "webgpu",
-      config: {
-        model_type: 'modnet',
-        architectures: ['MODNet']
-      }
-    });
-    state.processor = await AutoProcessor.from_pretrained(WEBGPU_MODEL_ID);
-    state.isWebGPUSupported = true;
-    return true;
-  } catch (error) {
-    console.error("WebGPU initialization failed:", error);
-    return false;
+  const processorConfig = definition.processorConfig
+    ? { ...definition.processorConfig, ...overrides?.processorConfig, size: definition.inputSize }
+    : undefined;
+  const processor = await AutoProcessor.from_pretrained(definition.modelId, {
+    ...(definition.revision ? { revision: definition.revision } : {}),
+    ...(processorConfig ? { config: processorConfig } : {}),
+    progress_callback: createProgressCallback(definition, device)
+  });
+
+  if (!model || !processor) {
+    throw new ModelLoadError("Failed to initialize model or processor");
   }
+  state.model = model;
+  state.processor = processor;
+  state.definition = definition;
+  state.device = device;
+  emitModelEvent({ type: "ready", modelId: definition.modelId, device });
 }
 
-// Initialize the model based on the selected model ID
-export async function initializeModel(forceModelId?: string): Promise<boolean> {
-  try {
-    // Always use RMBG-1.4 for iOS
-    if (state.isIOS) {
-      console.log('iOS detected, using RMBG-1.4 model');
-      env.allowLocalModels = false;
-      if (env.backends?.onnx?.wasm) {
-        env.backends.onnx.wasm.proxy = true;
-      }
-
-      state.model = await AutoModel.from_pretrained(FALLBACK_MODEL_ID, {
-        config: { model_type: 'custom' }
-      });
-
-      state.processor = await AutoProcessor.from_pretrained(FALLBACK_MODEL_ID, {
-        config: {
-          do_normalize: true,
-          do_pad: false,
-          do_rescale: true,
-          do_resize: true,
-          image_mean: [0.5, 0.5, 0.5],
-          feature_extractor_type: "ImageFeatureExtractor",
-          image_std: [1, 1, 1],
-          resample: 2,
-          rescale_factor: 0.00392156862745098,
-          size: { width: 1024, height: 1024 },
-        }
-      });
-
-      state.currentModelId = FALLBACK_MODEL_ID;
+// Initialize the model registered under `modelKey` (a registry key or Hugging Face id).
+// Devices are tried in the order the model prefers; when none of them works the
+// default model is loaded instead.
+export async function initializeModel(modelKey?: string): Promise<boolean> {
+  const definition = getModelDefinition(modelKey);
+  state.isWebGPUSupported = await hasWebGPUAdapter();
+
+  let lastError: unknown = null;
+  let attempted = false;
+  for (const device of definition.devices) {
+    if (device === "webgpu" && (!state.isWebGPUSupported || state.isIOS)) continue;
+    attempted = true;
+    try {
+      await loadModel(definition, device);
       return true;
+    } catch (error) {
+      console.error(`Error initializing ${definition.modelId} on ${device}:`, error);
+      lastError = error;
     }
+  }
 
-    // Non-iOS flow remains the same
-    const selectedModelId = forceModelId || FALLBACK_MODEL_ID;
-    
-    // Try WebGPU if requested
-    if (selectedModelId === WEBGPU_MODEL_ID) {
-      const webGPUSuccess = await initializeWebGPU();
-      if (webGPUSuccess) {
-        state.currentModelId = WEBGPU_MODEL_ID;
-        return true;
-      }
-      // If WebGPU fails, fall through to fallback model without error
-    }
-    
-    // Use fallback model
-    env.allowLocalModels = false;
-    if (env.backends?.onnx?.wasm) {
-      env.backends.onnx.wasm.proxy = true;
-    }
-    
-    state.model = await AutoModel.from_pretrained(FALLBACK_MODEL_ID, {
-      progress_callback: (progress) => {
-        console.log(`Loading model: ${Math.round(progress * 100)}%`);
-      }
-    });
-    
-    state.processor = await AutoProcessor.from_pretrained(FALLBACK_MODEL_ID, {
-      revision: "main",
-      config: {
-        do_normalize: true,
-        do_pad: true,
-        do_rescale: true,
-        do_resize: true,
-        image_mean: [0.5, 0.5, 0.5],
-        feature_extractor_type: "ImageFeatureExtractor",
-        image_std: [0.5, 0.5, 0.5],
-        resample: 2,
-        rescale_factor: 0.00392156862745098,
-        size: { width: 1024, height: 1024 }
-      }
-    });
-    
-    state.currentModelId = FALLBACK_MODEL_ID;
-    
-    if (!state.model || !state.processor) {
-      throw new Error("Failed to initialize model or processor");
-    }
-    
-    state.currentModelId = selectedModelId;
-    return true;
-  } catch (error) {
-    console.error("Error initializing model:", error);
-    if (forceModelId === WEBGPU_MODEL_ID) {
-      console.log("Falling back to cross-browser model...");
-      return initializeModel(FALLBACK_MODEL_ID);
-    }
-    throw new Error(error instanceof Error ? error.message : "Failed to initialize background removal model");
+  if (definition.key !== DEFAULT_MODEL_KEY) {
+    console.log("Falling back to cross-browser model...");
+    return initializeModel(DEFAULT_MODEL_KEY);
+  }
+  if (!attempted) {
+    throw new BackendUnavailableError(`${definition.modelId} needs WebGPU, which this browser does not offer`);
+  }
+  throw classifyLoadError(lastError);
+}
+
+// onnxruntime reports a missing or broken execution provider while creating the session,
+// everything else that goes wrong while loading is about the model files
+const BACKEND_ERROR_PATTERN = /no available backend|backend not found|webgpu|execution provider|wasm/i;
+
+function classifyLoadError(error: unknown): ProcessingError {
+  if (error instanceof Error && BACKEND_ERROR_PATTERN.test(error.message)) {
+    return new BackendUnavailableError(error.message, { cause: error });
   }
+  return toProcessingError(error, "model-load");
 }
 
 // Get current model info
 export function getModelInfo(): ModelInfo {
   return {
-    currentModelId: state.currentModelId,
-    isWebGPUSupported: Boolean((navigator as any).gpu),
+    currentModelId: state.definition.modelId,
+    currentModelKey: state.definition.key,
+    device: state.device,
+    // Set by the adapter check in initializeModel, the API alone can exist without a usable GPU
+    isWebGPUSupported: state.isWebGPUSupported,
     isIOS: state.isIOS
   };
 }
 
-export async function processImage(image: File): Promise<File> {
+export type ProcessingStage = "decode" | "preprocess" | "inference" | "mask" | "refine" | "encode";
+
+// 8-bit alpha matte, one byte per pixel, row by row
+export interface AlphaMask {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface SegmentationResult {
+  // Dimensions of the original RawImage, the mask and the cutout share them
+  width: number;
+  height: number;
+  mask: Uint8Array;
+  cutout: File;
+}
+
+export interface ProcessOptions {
+  signal?: AbortSignal;
+  onProgress?: (stage: ProcessingStage, progress: number) => void;
+  // Refine the edges of large images tile by tile at native resolution
+  highResolution?: boolean;
+  // Pixel budget of the high resolution pass, larger images are refined at a reduced scale.
+  // Defaults to an estimate from the memory the device reports.
+  maxPixels?: number;
+}
+
+// Canvas that works both on the main thread and inside a worker
+function createCanvas(width: number, height: number) {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function canvasToBlob(canvas: OffscreenCanvas | HTMLCanvasElement): Promise<Blob> {
+  if ("convertToBlob" in canvas) {
+    return canvas.convertToBlob({ type: "image/png" });
+  }
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error("Failed to create blob")),
+      "image/png"
+    )
+  );
+}
+
+function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+// Run the model on an image and resize the predicted matte to the size of that image.
+// `onStage` is called before the forward pass and before the resize.
+async function predictMask(img: RawImage, onStage?: (stage: "inference" | "mask") => void): Promise<Uint8Array> {
+  if (!state.model || !state.processor) {
+    throw new ModelLoadError("Model not initialized. Call initializeModel() first.");
+  }
+  const { pixel_values } = await state.processor(img);
+
+  onStage?.("inference");
+  const { inputName, outputName, modelId } = state.definition;
+  const { device } = state;
+  const startedAt = performance.now();
+  emitModelEvent({ type: "inference-start", modelId, device });
+  const outputs = await state.model({ [inputName]: pixel_values });
+  const output = outputs[outputName];
+  emitModelEvent({ type: "inference-end", modelId, device, duration: performance.now() - startedAt });
+
+  onStage?.("mask");
+  const maskImage = await RawImage.fromTensor(output[0].mul(255).to("uint8")).resize(img.width, img.height);
+  return new Uint8Array(maskImage.data);
+}
+
+// Overlap between neighbouring tiles, blended with a linear ramp so no seams show
+const TILE_OVERLAP = 128;
+// Coarse matte values between these are edge pixels, only they take the refined value
+const EDGE_MIN = 2;
+const EDGE_MAX = 253;
+
+// Pixels the high resolution pass may hold at once. Every pixel costs the RGBA copy plus two
+// mask bytes, so 16MP stays around 100MB on top of the image the worker already decoded.
+function getPixelBudget() {
+  if (state.isIOS) return 8_000_000;
+  const memory = (navigator as ExtendedNavigator).deviceMemory;
+  return memory ? Math.min(32_000_000, Math.max(8_000_000, memory * 4_000_000)) : 16_000_000;
+}
+
+// Start offsets of tiles covering `length`, the last tile is moved inwards to stay inside
+function tileOrigins(length: number, tile: number) {
+  if (length <= tile) return [0];
+  const origins: number[] = [];
+  for (let start = 0; start + tile < length; start += tile - TILE_OVERLAP) {
+    origins.push(start);
+  }
+  origins.push(length - tile);
+  return origins;
+}
+
+function hasEdge(mask: Uint8Array, stride: number, x: number, y: number, width: number, height: number) {
+  for (let row = y; row < y + height; row++) {
+    for (let col = x; col < x + width; col++) {
+      const value = mask[row * stride + col];
+      if (value > EDGE_MIN && value < EDGE_MAX) return true;
+    }
+  }
+  return false;
+}
+
+// Blend a refined tile into `target`. Weights ramp up over the overlap on every side that
+// borders another tile, and pixels the coarse pass was sure about are left alone.
+function blendTile(
+  target: Uint8Array,
+  coarse: Uint8Array,
+  stride: number,
+  tile: Uint8Array,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  imageWidth: number,
+  imageHeight: number
+) {
+  const ramp = (distance: number, isImageBorder: boolean) =>
+    isImageBorder ? 1 : Math.min(1, (distance + 1) / TILE_OVERLAP);
+
+  for (let row = 0; row < height; row++) {
+    const weightY = Math.min(ramp(row, y === 0), ramp(height - 1 - row, y + height === imageHeight));
+    for (let col = 0; col < width; col++) {
+      const i = (y + row) * stride + x + col;
+      if (coarse[i] <= EDGE_MIN || coarse[i] >= EDGE_MAX) continue;
+      const weight = Math.min(weightY, ramp(col, x === 0), ramp(width - 1 - col, x + width === imageWidth));
+      target[i] = Math.round(target[i] * (1 - weight) + tile[row * width + col] * weight);
+    }
+  }
+}
+
+// Refine the edges of a coarse full-image matte with tiles at the resolution the model was trained on
+async function refineMask(img: RawImage, coarse: Uint8Array, options: ProcessOptions): Promise<Uint8Array> {
+  const { signal, onProgress, maxPixels = getPixelBudget() } = options;
+  const { width: tileWidth, height: tileHeight } = state.definition.inputSize;
+
+  // Over the budget the whole pass runs on a downscaled copy and the result is scaled back up
+  const scale = Math.min(1, Math.sqrt(maxPixels / (img.width * img.height)));
+  const work = scale < 1 ? await img.resize(Math.round(img.width * scale), Math.round(img.height * scale)) : img;
+  if (work.width <= tileWidth && work.height <= tileHeight) {
+    return coarse;
+  }
+  const guide = scale < 1
+    ? new Uint8Array((await new RawImage(coarse, img.width, img.height, 1).resize(work.width, work.height)).data)
+    : coarse;
+  const refined = guide.slice();
+
+  const width = Math.min(tileWidth, work.width);
+  const height = Math.min(tileHeight, work.height);
+  const tiles = tileOrigins(work.height, height)
+    .flatMap(y => tileOrigins(work.width, width).map(x => ({ x, y })))
+    .filter(({ x, y }) => hasEdge(guide, work.width, x, y, width, height));
+
+  for (const [index, { x, y }] of tiles.entries()) {
+    signal?.throwIfAborted();
+    onProgress?.("refine", 0.8 + 0.1 * (index / tiles.length));
+    const tile = await work.crop([x, y, x + width - 1, y + height - 1]);
+    const tileMask = await predictMask(tile);
+    blendTile(refined, guide, work.width, tileMask, x, y, width, height, work.width, work.height);
+  }
+
+  if (scale === 1) return refined;
+  const upscaled = await new RawImage(refined, work.width, work.height, 1).resize(img.width, img.height);
+  return new Uint8Array(upscaled.data);
+}
+
+// Predict the alpha matte of an already decoded image, resized back to the image size
+export async function segmentRawImage(img: RawImage, options: ProcessOptions = {}): Promise<Uint8Array> {
   if (!state.model || !state.processor) {
-    throw new Error("Model not initialized. Call initializeModel() first.");
+    throw new ModelLoadError("Model not initialized. Call initializeModel() first.");
   }
+  const { signal, onProgress, highResolution } = options;
 
-  const img = await RawImage.fromURL(URL.createObjectURL(image));
-  
   try {
-    // Pre-process image
-    const { pixel_values } = await state.processor(img);
-    
-    // Predict alpha matte
-    const { output } = await state.model({ input: pixel_values });
+    signal?.throwIfAborted();
+    onProgress?.("preprocess", 0.1);
+    const mask = await predictMask(img, (stage) => {
+      signal?.throwIfAborted();
+      onProgress?.(stage, stage === "inference" ? 0.2 : 0.8);
+    });
 
-    // Resize mask back to original size
-    const maskData = (
-      await RawImage.fromTensor(output[0].mul(255).to("uint8")).resize(
-        img.width,
-        img.height,
-      )
-    ).data;
+    signal?.throwIfAborted();
+    return highResolution ? await refineMask(img, mask, options) : mask;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error processing image:", error);
+    throw toProcessingError(error, "inference");
+  }
+}
 
+// Remove the background of an already decoded image, returns the matte and the cutout as a PNG blob
+export async function processRawImage(
+  img: RawImage,
+  options: ProcessOptions = {}
+): Promise<{ mask: Uint8Array; cutout: Blob }> {
+  const maskData = await segmentRawImage(img, options);
+  const { signal, onProgress } = options;
+
+  try {
     // Create new canvas
-    const canvas = document.createElement("canvas");
-    canvas.width = img.width;
-    canvas.height = img.height;
-    const ctx = canvas.getContext("2d");
+    const canvas = createCanvas(img.width, img.height);
+    const ctx = canvas.getContext("2d") as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
     if(!ctx) throw new Error("Could not get 2d context");
     
     // Draw original image output to canvas
@@ -228,36 +459,41 @@ export async function processImage(image: File): Promise<File> {
     ctx.putImageData(pixelData, 0, 0);
     
     // Convert canvas to blob
-    const blob = await new Promise<Blob>((resolve, reject) => 
-      canvas.toBlob(
-        (blob) => blob ? resolve(blob) : reject(new Error("Failed to create blob")), 
-        "image/png"
-      )
-    );
-    
-    const [fileName] = image.name.split(".");
-    const processedFile = new File([blob], `${fileName}-bg-blasted.png`, { type: "image/png" });
-    return processedFile;
+    signal?.throwIfAborted();
+    onProgress?.("encode", 0.9);
+    return { mask: maskData, cutout: await canvasToBlob(canvas) };
   } catch (error) {
-    console.error("Error processing image:", error);
-    throw new Error("Failed to process image");
+    if (isAbortError(error)) throw error;
+    console.error("Error encoding image:", error);
+    throw toProcessingError(error, "encode");
   }
 }
 
-export async function processImages(images: File[]): Promise<File[]> {
-  console.log("Processing images...");
-  const processedFiles: File[] = [];
-  
-  for (const image of images) {
-    try {
-      const processedFile = await processImage(image);
-      processedFiles.push(processedFile);
-      console.log("Successfully processed image", image.name);
-    } catch (error) {
-      console.error("Error processing image", image.name, error);
-    }
+// Read the pixels of a bitmap into a RawImage the processor understands
+export function bitmapToRawImage(bitmap: ImageBitmap) {
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2d context");
+  ctx.drawImage(bitmap, 0, 0);
+  const { data } = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  return new RawImage(data, bitmap.width, bitmap.height, 4);
+}
+
+export async function processImage(image: File, options: ProcessOptions = {}): Promise<SegmentationResult> {
+  options.onProgress?.("decode", 0);
+  // RawImage.fromBlob leaves orientation and colour conversion to the browser defaults
+  const bitmap = await decodeImage(image);
+  let img: RawImage;
+  try {
+    img = bitmapToRawImage(bitmap);
+  } catch (error) {
+    throw toProcessingError(error, "decode");
+  } finally {
+    bitmap.close();
   }
-  
-  console.log("Processing images done");
-  return processedFiles;
+  const { mask, cutout } = await processRawImage(img, options);
+
+  const [fileName] = image.name.split(".");
+  const processedFile = new File([cutout], `${fileName}-bg-blasted.png`, { type: "image/png" });
+  return { width: img.width, height: img.height, mask, cutout: processedFile };
 }
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { createMessageHandler, type EngineBackend, type EngineResponse } from "./protocol";
+import type { ModelInfo } from "./process";
+
+// The worker protocol driven by a fake model under Node. Images are plain numbers, every job
+// waits until the test releases it so ordering and cancellation can be observed.
+
+const info: ModelInfo = {
+  currentModelId: "fake/model",
+  currentModelKey: "fake",
+  device: "wasm",
+  isWebGPUSupported: false,
+  isIOS: false
+};
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+function createFakeBackend() {
+  const started: number[] = [];
+  const gates = new Map<number, ReturnType<typeof deferred>>();
+  const gate = (image: number) => {
+    if (!gates.has(image)) gates.set(image, deferred());
+    return gates.get(image)!;
+  };
+
+  const backend: EngineBackend<number> = {
+    async initialize(modelId) {
+      if (modelId === "broken") throw new Error("404 model.onnx");
+      return info;
+    },
+    async process(image, { onProgress }) {
+      started.push(image);
+      onProgress("inference", 0.5);
+      await gate(image).promise;
+      if (image < 0) throw new RangeError("Array buffer allocation failed");
+      return { data: new Uint8Array([image]), width: 1, height: 1, cutout: new Blob([new Uint8Array([image])], { type: "image/png" }) };
+    },
+    async segment(image) {
+      started.push(image);
+      await gate(image).promise;
+      if (image < 0) throw new Error("Session run failed");
+      return { data: new Uint8Array([image, image]), width: 2, height: 1 };
+    }
+  };
+  return { backend, started, release: (image: number) => gate(image).resolve() };
+}
+
+function setup() {
+  const fake = createFakeBackend();
+  const messages: EngineResponse[] = [];
+  const handle = createMessageHandler(fake.backend, message => messages.push(message));
+  return { ...fake, messages, handle, forId: (id: number) => messages.filter(message => "id" in message && message.id === id) };
+}
+
+// Let pending promise callbacks run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("createMessageHandler", () => {
+  it("answers init with the model info", async () => {
+    const { handle, messages } = setup();
+    await handle({ type: "init", id: 1, modelId: "fake" });
+    expect(messages).toEqual([{ type: "ready", id: 1, info }]);
+  });
+
+  it("replies to a failed init with a typed error", async () => {
+    const { handle, messages } = setup();
+    await handle({ type: "init", id: 1, modelId: "broken" });
+    expect(messages).toEqual([{ type: "error", id: 1, code: "model-load", message: "404 model.onnx" }]);
+  });
+
+  it("runs jobs one at a time in the order they arrive", async () => {
+    const { handle, started, release, forId } = setup();
+    const first = handle({ type: "process", id: 1, bitmap: 1 });
+    const second = handle({ type: "segment", id: 2, bitmap: 2 });
+    await flush();
+    expect(started).toEqual([1]);
+
+    release(1);
+    await first;
+    await flush();
+    expect(started).toEqual([1, 2]);
+    expect(forId(1).at(-1)).toMatchObject({ type: "result", id: 1, mimeType: "image/png", width: 1, height: 1 });
+
+    release(2);
+    await second;
+    const mask = forId(2).at(-1);
+    expect(mask).toMatchObject({ type: "mask", id: 2, width: 2, height: 1 });
+    expect(new Uint8Array((mask as { buffer: ArrayBuffer }).buffer)).toEqual(new Uint8Array([2, 2]));
+  });
+
+  it("forwards progress of the running job", async () => {
+    const { handle, release, forId } = setup();
+    const job = handle({ type: "process", id: 7, bitmap: 1 });
+    await flush();
+    expect(forId(7)).toEqual([{ type: "progress", id: 7, stage: "inference", progress: 0.5 }]);
+    release(1);
+    await job;
+    expect(forId(7).map(message => message.type)).toEqual(["progress", "result"]);
+  });
+
+  it("drops a queued job that is cancelled before it starts", async () => {
+    const { handle, started, release, forId } = setup();
+    const first = handle({ type: "process", id: 1, bitmap: 1 });
+    const second = handle({ type: "process", id: 2, bitmap: 2 });
+    await handle({ type: "cancel", id: 2 });
+
+    release(1);
+    await Promise.all([first, second]);
+    expect(started).toEqual([1]);
+    expect(forId(2)).toEqual([{ type: "cancelled", id: 2 }]);
+  });
+
+  it("reports a running job as cancelled once it reaches its next boundary", async () => {
+    const { handle, release, forId } = setup();
+    const job = handle({ type: "segment", id: 3, bitmap: 3 });
+    await flush();
+    await handle({ type: "cancel", id: 3 });
+    release(3);
+    await job;
+    expect(forId(3)).toEqual([{ type: "cancelled", id: 3 }]);
+  });
+
+  it("replies to failed jobs with typed errors and keeps the queue going", async () => {
+    const { handle, release, forId } = setup();
+    const oom = handle({ type: "process", id: 1, bitmap: -1 });
+    const failed = handle({ type: "segment", id: 2, bitmap: -2 });
+    const next = handle({ type: "segment", id: 3, bitmap: 3 });
+    release(-1);
+    release(-2);
+    release(3);
+    await Promise.all([oom, failed, next]);
+
+    expect(forId(1).at(-1)).toEqual({
+      type: "error",
+      id: 1,
+      code: "out-of-memory",
+      message: "Ran out of memory while processing the image"
+    });
+    expect(forId(2)).toEqual([{ type: "error", id: 2, code: "inference", message: "Session run failed" }]);
+    expect(forId(3).at(-1)).toMatchObject({ type: "mask", id: 3 });
+  });
+});
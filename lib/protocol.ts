@@ -0,0 +1,124 @@
+import type { AlphaMask, ModelEvent, ModelInfo, ProcessingStage } from "./process";
+import { toProcessingError, type ProcessingErrorCode } from "./errors";
+
+// Messages sent from the main thread to the segmentation worker
+export type EngineRequest<TImage = ImageBitmap> =
+  | { type: "init"; id: number; modelId?: string }
+  | { type: "process"; id: number; bitmap: TImage; highResolution?: boolean }
+  | { type: "segment"; id: number; bitmap: TImage }
+  | { type: "cancel"; id: number };
+
+// Messages sent back from the worker. Every message carries the id of the request it answers,
+// except model events which are broadcast to whoever listens.
+export type EngineResponse =
+  | { type: "event"; event: ModelEvent }
+  | { type: "ready"; id: number; info: ModelInfo }
+  | { type: "progress"; id: number; stage: ProcessingStage; progress: number }
+  | {
+      type: "result";
+      id: number;
+      buffer: ArrayBuffer;
+      mimeType: string;
+      mask: ArrayBuffer;
+      width: number;
+      height: number;
+    }
+  | { type: "mask"; id: number; buffer: ArrayBuffer; width: number; height: number }
+  | { type: "cancelled"; id: number }
+  | { type: "error"; id: number; code: ProcessingErrorCode; message: string };
+
+interface JobOptions {
+  signal: AbortSignal;
+  onProgress: (stage: ProcessingStage, progress: number) => void;
+  highResolution?: boolean;
+}
+
+// What the message handler needs from the model. The worker wires in lib/process.ts,
+// anything else (e.g. a fake model under Node) only has to implement these calls.
+export interface EngineBackend<TImage = ImageBitmap> {
+  initialize(modelId?: string): Promise<ModelInfo>;
+  process(image: TImage, options: JobOptions): Promise<AlphaMask & { cutout: Blob }>;
+  // Alpha matte only, one byte per pixel at the size of the image
+  segment(image: TImage, options: JobOptions): Promise<AlphaMask>;
+}
+
+export type PostResponse = (message: EngineResponse, transfer?: Transferable[]) => void;
+
+// Build the `onmessage` handler of the worker. Jobs run one at a time in the order they
+// arrive; a cancel either drops a job that has not started yet or aborts the running one
+// at its next stage boundary.
+export function createMessageHandler<TImage = ImageBitmap>(
+  backend: EngineBackend<TImage>,
+  post: PostResponse
+) {
+  const controllers = new Map<number, AbortController>();
+  let queue: Promise<void> = Promise.resolve();
+
+  const runJob = async (id: number, kind: "process" | "segment", image: TImage, highResolution?: boolean) => {
+    const controller = controllers.get(id);
+    if (!controller) return;
+
+    try {
+      controller.signal.throwIfAborted();
+      const options: JobOptions = {
+        signal: controller.signal,
+        onProgress: (stage, progress) => post({ type: "progress", id, stage, progress }),
+        highResolution
+      };
+      if (kind === "segment") {
+        const { data, width, height } = await backend.segment(image, options);
+        controller.signal.throwIfAborted();
+        const buffer = data.buffer as ArrayBuffer;
+        post({ type: "mask", id, buffer, width, height }, [buffer]);
+      } else {
+        const { cutout, data, width, height } = await backend.process(image, options);
+        controller.signal.throwIfAborted();
+        const buffer = await cutout.arrayBuffer();
+        const mask = data.buffer as ArrayBuffer;
+        post({ type: "result", id, buffer, mimeType: cutout.type, mask, width, height }, [buffer, mask]);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        post({ type: "cancelled", id });
+      } else {
+        const { code, message } = toProcessingError(error, "inference");
+        post({ type: "error", id, code, message });
+      }
+    } finally {
+      controllers.delete(id);
+      if (typeof ImageBitmap !== "undefined" && image instanceof ImageBitmap) {
+        image.close();
+      }
+    }
+  };
+
+  return async (message: EngineRequest<TImage>) => {
+    switch (message.type) {
+      case "init":
+        try {
+          const info = await backend.initialize(message.modelId);
+          post({ type: "ready", id: message.id, info });
+        } catch (error) {
+          const { code, message: errorMessage } = toProcessingError(error, "model-load");
+          post({ type: "error", id: message.id, code, message: errorMessage });
+        }
+        break;
+
+      case "process":
+      case "segment":
+        controllers.set(message.id, new AbortController());
+        queue = queue.then(() => runJob(
+          message.id,
+          message.type,
+          message.bitmap,
+          message.type === "process" ? message.highResolution : undefined
+        ));
+        await queue;
+        break;
+
+      case "cancel":
+        controllers.get(message.id)?.abort();
+        break;
+    }
+  };
+}
@@ -0,0 +1,94 @@
+// Inputs besides the dropzone: pasted image data, pasted or typed image URLs, and copying a
+// result back to the clipboard. Everything here ends in plain Files for the upload queue.
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/bmp": "bmp",
+  "image/avif": "avif",
+  "image/heic": "heic",
+  "image/heif": "heif",
+  "image/tiff": "tiff",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "video/quicktime": "mov"
+};
+
+// Screenshots are pasted as a nameless "image.png", give them something to tell apart in the gallery
+function pastedName(type: string, index: number) {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, "-");
+  const suffix = index > 0 ? `-${index + 1}` : "";
+  return `pasted-${stamp}${suffix}.${MIME_EXTENSIONS[type] ?? "png"}`;
+}
+
+export function getClipboardFiles(data: DataTransfer): File[] {
+  return Array.from(data.files)
+    .filter(file => file.type.startsWith("image/") || file.type.startsWith("video/"))
+    .map((file, index) => new File([file], pastedName(file.type, index), { type: file.type }));
+}
+
+// Only a single http(s) URL counts, pasted prose is left alone
+export function parseImageUrl(text: string): URL | null {
+  const trimmed = text.trim();
+  if (!trimmed || /\s/.test(trimmed)) return null;
+  try {
+    const url = new URL(trimmed);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function urlFileName(url: URL, type: string) {
+  const last = decodeURIComponent(url.pathname.split("/").pop() ?? "");
+  const name = last.replace(/[\\/:*?"<>|]+/g, "_").trim();
+  const extension = MIME_EXTENSIONS[type];
+  if (!name) return `${url.hostname}.${extension ?? "png"}`;
+  return name.includes(".") || !extension ? name : `${name}.${extension}`;
+}
+
+export async function fetchImageFromUrl(url: URL, signal?: AbortSignal): Promise<File> {
+  let response: Response;
+  try {
+    response = await fetch(url, { mode: "cors", signal });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    // fetch only says "Failed to fetch", by far the most common cause is a server without CORS headers
+    throw new Error(
+      `${url.hostname} does not allow other sites to load its images (CORS), or could not be reached. ` +
+      "Save the image and upload the file instead."
+    );
+  }
+  if (!response.ok) {
+    throw new Error(`Could not download the image, ${url.hostname} answered with HTTP ${response.status}`);
+  }
+
+  const type = (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+  if (type && !type.startsWith("image/") && !type.startsWith("video/")) {
+    throw new Error(`The URL does not point to an image but to ${type}`);
+  }
+  const blob = await response.blob();
+  return new File([blob], urlFileName(url, type), { type: type || blob.type });
+}
+
+async function toPng(image: Blob) {
+  if (image.type === "image/png") return image;
+  const bitmap = await createImageBitmap(image);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2d context");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas.convertToBlob({ type: "image/png" });
+}
+
+// The async Clipboard API only takes PNG everywhere. Safari also wants write() called right
+// in the click handler, so the image may still be on its way.
+export async function copyImageToClipboard(image: Blob | Promise<Blob>) {
+  if (typeof ClipboardItem === "undefined" || !navigator.clipboard?.write) {
+    throw new Error("Copying images is not supported by your browser");
+  }
+  await navigator.clipboard.write([new ClipboardItem({ "image/png": Promise.resolve(image).then(toPng) })]);
+}
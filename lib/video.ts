@@ -0,0 +1,181 @@
+import { Muxer, ArrayBufferTarget } from "mp4-muxer";
+import { segmentFrame } from "./engine";
+import { decodeImage } from "./metadata";
+
+// Frame-by-frame background removal for short clips. Frames are decoded by seeking a
+// <video> element, segmented in the worker, composited over the new background and
+// encoded to H.264 with WebCodecs before being muxed into an MP4.
+
+export type VideoBackground =
+  | { type: "color"; color: string }
+  | { type: "image"; image: File };
+
+export interface VideoOptions {
+  background: VideoBackground;
+  // 0 keeps every mask as predicted, values towards 1 blend more of the previous frames in
+  temporalSmoothing?: number;
+  fps?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+export const MAX_VIDEO_DURATION = 30;
+const DEFAULT_FPS = 24;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+
+export function isVideoFile(file: File) {
+  return file.type.startsWith("video/");
+}
+
+function loadVideo(file: File) {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+  video.src = URL.createObjectURL(file);
+
+  return new Promise<HTMLVideoElement>((resolve, reject) => {
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error("This video format is not supported by your browser"));
+    };
+  });
+}
+
+function seek(video: HTMLVideoElement, time: number) {
+  return new Promise<void>((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error("Failed to decode video frame"));
+    video.currentTime = time;
+  });
+}
+
+async function loadBackgroundImage(file: File, width: number, height: number) {
+  const bitmap = await decodeImage(file);
+  // Cover the frame without distorting the background
+  const scale = Math.max(width / bitmap.width, height / bitmap.height);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2d context");
+  ctx.drawImage(
+    bitmap,
+    (width - bitmap.width * scale) / 2,
+    (height - bitmap.height * scale) / 2,
+    bitmap.width * scale,
+    bitmap.height * scale
+  );
+  bitmap.close();
+  return canvas;
+}
+
+async function getSupportedCodec(width: number, height: number) {
+  const candidates = [
+    { codec: "avc1.640028", muxer: "avc" as const },
+    { codec: "avc1.42001f", muxer: "avc" as const },
+    { codec: "vp09.00.10.08", muxer: "vp9" as const }
+  ];
+  for (const candidate of candidates) {
+    const { supported } = await VideoEncoder.isConfigSupported({ codec: candidate.codec, width, height });
+    if (supported) return candidate;
+  }
+  throw new Error("Video encoding is not supported by your browser");
+}
+
+export async function processVideo(file: File, options: VideoOptions): Promise<File> {
+  const { background, temporalSmoothing = 0, fps = DEFAULT_FPS, signal, onProgress } = options;
+  if (typeof VideoEncoder === "undefined") {
+    throw new Error("Video encoding is not supported by your browser");
+  }
+
+  const video = await loadVideo(file);
+  try {
+    if (video.duration > MAX_VIDEO_DURATION) {
+      throw new Error(`Videos can be at most ${MAX_VIDEO_DURATION} seconds long`);
+    }
+
+    // H.264 needs even dimensions
+    const width = video.videoWidth - (video.videoWidth % 2);
+    const height = video.videoHeight - (video.videoHeight % 2);
+    const frameCount = Math.max(1, Math.floor(video.duration * fps));
+    const frameDuration = 1e6 / fps;
+
+    const { codec, muxer: muxerCodec } = await getSupportedCodec(width, height);
+    const muxer = new Muxer({
+      target: new ArrayBufferTarget(),
+      video: { codec: muxerCodec, width, height, frameRate: fps },
+      fastStart: "in-memory"
+    });
+    let encoderError: Error | null = null;
+    const encoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: (error) => {
+        encoderError = error;
+      }
+    });
+    encoder.configure({ codec, width, height, bitrate: 4_000_000, framerate: fps });
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext("2d");
+    const subject = new OffscreenCanvas(width, height);
+    const subjectCtx = subject.getContext("2d", { willReadFrequently: true });
+    if (!ctx || !subjectCtx) throw new Error("Could not get 2d context");
+    const backgroundImage = background.type === "image"
+      ? await loadBackgroundImage(background.image, width, height)
+      : null;
+
+    let smoothedMask: Float32Array | null = null;
+
+    try {
+      for (let i = 0; i < frameCount; i++) {
+        signal?.throwIfAborted();
+        if (encoderError) throw encoderError;
+
+        await seek(video, i / fps);
+        subjectCtx.drawImage(video, 0, 0, width, height);
+        const frame = await createImageBitmap(subject);
+        const { data: mask } = await segmentFrame(frame, { signal });
+
+        // Exponential moving average over time reduces flicker along the edges
+        if (!smoothedMask || temporalSmoothing <= 0) {
+          smoothedMask = Float32Array.from(mask);
+        } else {
+          for (let p = 0; p < mask.length; p++) {
+            smoothedMask[p] = temporalSmoothing * smoothedMask[p] + (1 - temporalSmoothing) * mask[p];
+          }
+        }
+
+        const pixels = subjectCtx.getImageData(0, 0, width, height);
+        for (let p = 0; p < smoothedMask.length; p++) {
+          pixels.data[4 * p + 3] = smoothedMask[p];
+        }
+        subjectCtx.putImageData(pixels, 0, 0);
+
+        if (backgroundImage) {
+          ctx.drawImage(backgroundImage, 0, 0);
+        } else if (background.type === "color") {
+          ctx.fillStyle = background.color;
+          ctx.fillRect(0, 0, width, height);
+        }
+        ctx.drawImage(subject, 0, 0);
+
+        const videoFrame = new VideoFrame(canvas, { timestamp: i * frameDuration, duration: frameDuration });
+        encoder.encode(videoFrame, { keyFrame: i % (fps * KEYFRAME_INTERVAL_SECONDS) === 0 });
+        videoFrame.close();
+
+        onProgress?.((i + 1) / frameCount);
+      }
+
+      await encoder.flush();
+      if (encoderError) throw encoderError;
+    } finally {
+      if (encoder.state !== "closed") encoder.close();
+    }
+
+    muxer.finalize();
+    const [fileName] = file.name.split(".");
+    return new File([muxer.target.buffer], `${fileName}-bg-blasted.mp4`, { type: "video/mp4" });
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
+}
@@ -0,0 +1,52 @@
+/// <reference lib="webworker" />
+import {
+  initializeModel,
+  getModelInfo,
+  processRawImage,
+  segmentRawImage,
+  subscribeModelEvents,
+  bitmapToRawImage
+} from "./process";
+import { createMessageHandler, type EngineRequest, type EngineResponse } from "./protocol";
+import { createVerifyingFetch } from "./modelSource";
+
+declare const self: DedicatedWorkerGlobalScope;
+
+// Model files are downloaded from this worker, check them against their registered checksums
+self.fetch = createVerifyingFetch(self.fetch.bind(self));
+
+let initializing: Promise<boolean> | null = null;
+let initializedModelId: string | undefined;
+
+const handleMessage = createMessageHandler(
+  {
+    async initialize(modelId) {
+      // Several callers may ask for the model at once, only load it once per model id
+      if (!initializing || initializedModelId !== modelId) {
+        initializedModelId = modelId;
+        initializing = initializeModel(modelId).catch((error) => {
+          initializing = null;
+          throw error;
+        });
+      }
+      await initializing;
+      return getModelInfo();
+    },
+    async process(bitmap, options) {
+      options.onProgress("decode", 0);
+      const { mask, cutout } = await processRawImage(bitmapToRawImage(bitmap), options);
+      return { data: mask, width: bitmap.width, height: bitmap.height, cutout };
+    },
+    async segment(bitmap, options) {
+      const mask = await segmentRawImage(bitmapToRawImage(bitmap), options);
+      return { data: mask, width: bitmap.width, height: bitmap.height };
+    }
+  },
+  (message, transfer = []) => self.postMessage(message, transfer)
+);
+
+subscribeModelEvents((event) => self.postMessage({ type: "event", event } satisfies EngineResponse));
+
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+  handleMessage(event.data);
+};
@@ -0,0 +1,73 @@
+// Offline cache for the app shell and the ONNX runtime.
+// Model weights and configs are not cached here, transformers.js keeps them in its own
+// "transformers-cache" storage after the first download.
+
+const CACHE_PREFIX = "cutoutify-";
+const CACHE_NAME = `${CACHE_PREFIX}v1`;
+const APP_SHELL = ["/", "/index.html", "/favicon.ico", "/favicon.png"];
+
+// Third party hosts the page and the worker load code or fonts from
+const RUNTIME_HOSTS = [
+  "cdn.jsdelivr.net",
+  "unpkg.com",
+  "fonts.googleapis.com",
+  "fonts.gstatic.com"
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(APP_SHELL)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      // Only our own older versions, "transformers-cache" holds the downloaded model
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+function isModelFile(url) {
+  return /\.(onnx|onnx_data)$/.test(url.pathname) || url.pathname.endsWith("/checksums.json");
+}
+
+// Pages go to the network first so deploys show up, and fall back to the cached shell offline
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    return (await cache.match(request)) ?? (await cache.match("/index.html")) ?? Promise.reject(error);
+  }
+}
+
+// Build assets are content hashed and runtime files are pinned to a version, so a cached copy stays valid
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === "opaque") cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin) {
+    if (isModelFile(url)) return;
+    event.respondWith(cacheFirst(request));
+  } else if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -1,16 +1,104 @@
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useRef, useMemo } from "react";
 import { useDropzone } from "react-dropzone";
-import { processImages, initializeModel } from "../lib/process";
+import { useLiveQuery } from "dexie-react-hooks";
+import { initializeEngine, removeBackground, onModelEvent } from "../lib/engine";
+import { initialLoadProgress, reduceLoadProgress, formatEta, type LoadProgress } from "../lib/loadProgress";
+import { downloadResultsArchive } from "../lib/archive";
+import { processVideo, isVideoFile, MAX_VIDEO_DURATION } from "../lib/video";
+import { processAnimatedGif } from "../lib/gif";
+import { imageExtensions, isAnimatedGif, prepareUploads } from "../lib/formats";
+import { copyImageToClipboard, fetchImageFromUrl, getClipboardFiles, parseImageUrl } from "../lib/sources";
+import { getErrorCode, type ProcessingErrorCode } from "../lib/errors";
+import { ErrorBanner } from "./components/ErrorBanner";
+import {
+  saveImage,
+  updateStoredImage,
+  deleteStoredImage,
+  loadImages,
+  clearHistory,
+  saveSession,
+  loadSession,
+  getHistorySummary,
+  getCustomPresets,
+  saveCustomPresets,
+  deleteCustomPreset,
+  type StoredImage
+} from "../lib/db";
+import { Images } from "./components/Images";
+import type { EditSettings } from "./components/EditModal";
+import { maskToFile, composeCutout } from "../lib/mask";
+import { MaskEditor } from "./components/MaskEditor";
+import { MattingControls } from "./components/MattingControls";
+import { DEFAULT_MATTING, type MattingSettings } from "../lib/matting";
+import {
+  predefinedColors,
+  createCompositeSpec,
+  isIdentitySpec,
+  compositeToBlob,
+  migrateEffects,
+  DEFAULT_PORTRAIT,
+  DEFAULT_LAYOUT,
+  DEFAULT_GRADIENT,
+  DEFAULT_PATTERN,
+  DEFAULT_SUBJECT_STYLE,
+  type Effect,
+  type GradientSettings,
+  type LayoutSettings,
+  type PatternSettings,
+  type PortraitSettings,
+  type SubjectStyle
+} from "../lib/compositor";
+import { EffectsStack } from "./components/EffectsStack";
+import { PortraitControls } from "./components/PortraitControls";
+import { GradientControls } from "./components/GradientControls";
+import { PatternControls } from "./components/PatternControls";
+import { SubjectStyleControls } from "./components/SubjectStyleControls";
+import { ExportDialog } from "./components/ExportDialog";
+import { MetadataControls } from "./components/MetadataControls";
+import { DEFAULT_EXPORT, tagForDownload, type ExportSettings } from "../lib/export";
+import { PresetManager } from "./components/PresetManager";
+import { builtInPresets, exportWithPreset } from "../lib/presets";
+import { CropControls } from "./components/CropControls";
+import { DEFAULT_CROP, type CropSettings } from "../lib/crop";
+import { LayoutControls, useLayoutDrag, type LayoutLayer } from "./components/LayoutControls";
+import { ModelSelector } from "./components/ModelSelector";
+import { DEFAULT_MODEL_KEY } from "../lib/models";
+import type { AlphaMask, ProcessingStage } from "../lib/process";
 import "./styles.css";
 
 interface AppError {
   message: string;
+  code?: ProcessingErrorCode;
+  // Queued again by the banner's retry button
+  file?: File;
 }
 
+export type ImageStatus = 'queued' | 'processing' | 'done' | 'failed';
+
 export interface ImageFile {
   id: number;
   file: File;
+  status: ImageStatus;
   processedFile?: File;
+  mask?: AlphaMask;
+  matting?: MattingSettings;
+  editedFile?: File;
+  edits?: EditSettings;
+  // Custom background image of the edits
+  background?: File;
+  modelId?: string;
+  // Whether the edges were refined at full resolution, only set for still images
+  highResolution?: boolean;
+  progress?: number;
+  error?: string;
+  errorCode?: ProcessingErrorCode;
+}
+
+interface VideoSettings {
+  bgType: 'color' | 'image';
+  bgColor: string;
+  bgImage: File | null;
+  smoothing: number;
 }
 
 // Sample images from the HTML design
@@ -24,25 +112,61 @@ const sampleImages = [
 const backgroundOptions = [
   { id: 'transparent', label: 'Transparent' },
   { id: 'color', label: 'Solid Color' },
-  { id: 'image', label: 'Image' }
+  { id: 'gradient', label: 'Gradient' },
+  { id: 'pattern', label: 'Pattern' },
+  { id: 'image', label: 'Image' },
+  { id: 'portrait', label: 'Portrait Blur' }
 ];
 
-const effectOptions = [
-  { id: 'none', label: 'None' },
-  { id: 'blur', label: 'Blur' },
-  { id: 'brightness', label: 'Bright' },
-  { id: 'contrast', label: 'Contrast' }
-];
+const stageLabels: Record<ProcessingStage, string> = {
+  decode: 'Reading image...',
+  preprocess: 'Preparing image...',
+  inference: 'Removing background...',
+  mask: 'Refining edges...',
+  refine: 'Sharpening edges at full resolution...',
+  encode: 'Finishing up...'
+};
 
-const predefinedColors = [
-  '#ffffff', '#000000', '#ff0000', '#00ff00', '#0000ff',
-  '#ffff00', '#00ffff', '#ff00ff', '#808080', '#c0c0c0'
-];
+// History is a convenience, a failing write must never break the editor
+function persist(task: Promise<unknown>) {
+  task.catch(error => console.error("Failed to update history:", error));
+}
+
+// Older records hold a single effect, bring them to the stacked format
+function fromStoredEdits(edits: Record<string, unknown>): EditSettings {
+  return { ...(edits as unknown as EditSettings), effects: migrateEffects(edits) };
+}
+
+function fromStoredImage(stored: StoredImage): ImageFile {
+  return {
+    id: stored.id,
+    file: stored.original,
+    status: stored.result ? 'done' : 'queued',
+    processedFile: stored.result,
+    mask: stored.mask,
+    editedFile: stored.edited,
+    edits: stored.edits ? fromStoredEdits(stored.edits) : undefined,
+    background: stored.background,
+    matting: stored.matting,
+    modelId: stored.modelId,
+    highResolution: stored.highResolution
+  };
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
 
 export default function App() {
   const [isLoading, setIsLoading] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [importUrl, setImportUrl] = useState('');
+  const [copyStatus, setCopyStatus] = useState<'copied' | 'failed' | null>(null);
   const [error, setError] = useState<AppError | null>(null);
-  const [currentState, setCurrentState] = useState<'upload' | 'loading' | 'result'>('upload');
+  // One per dropped file that could not be read
+  const [uploadErrors, setUploadErrors] = useState<AppError[]>([]);
+  const [currentState, setCurrentState] = useState<'upload' | 'loading' | 'result' | 'batch'>('upload');
   const [originalImageUrl, setOriginalImageUrl] = useState<string>('');
   const [processedImageUrl, setProcessedImageUrl] = useState<string>('');
   const [currentFile, setCurrentFile] = useState<File | null>(null);
@@ -50,11 +174,47 @@ export default function App() {
   const [bgType, setBgType] = useState('transparent');
   const [bgColor, setBgColor] = useState('#ffffff');
   const [customBgImage, setCustomBgImage] = useState<File | null>(null);
-  const [selectedEffect, setSelectedEffect] = useState('none');
-  const [blurValue, setBlurValue] = useState(50);
-  const [brightnessValue, setBrightnessValue] = useState(50);
-  const [contrastValue, setContrastValue] = useState(50);
+  const [effects, setEffects] = useState<Effect[]>([]);
+  const [portrait, setPortrait] = useState<PortraitSettings>(DEFAULT_PORTRAIT);
+  const [gradient, setGradient] = useState<GradientSettings>(DEFAULT_GRADIENT);
+  const [pattern, setPattern] = useState<PatternSettings>(DEFAULT_PATTERN);
+  const [layout, setLayout] = useState<LayoutSettings>(DEFAULT_LAYOUT);
+  const [subjectStyle, setSubjectStyle] = useState<SubjectStyle>(DEFAULT_SUBJECT_STYLE);
+  const [crop, setCrop] = useState<CropSettings>(DEFAULT_CROP);
+  const [layoutLayer, setLayoutLayer] = useState<LayoutLayer>('subject');
   const [showCustomColorPicker, setShowCustomColorPicker] = useState(false);
+  const [isMaskEditorOpen, setIsMaskEditorOpen] = useState(false);
+  const [progress, setProgress] = useState<{ stage: ProcessingStage; value: number } | null>(null);
+  const [modelLoad, setModelLoad] = useState<LoadProgress>(initialLoadProgress);
+  const [images, setImages] = useState<ImageFile[]>([]);
+  const [activeImageId, setActiveImageId] = useState<number | null>(null);
+  const nextImageIdRef = useRef(1);
+  const [isSessionRestored, setIsSessionRestored] = useState(false);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [archiveOptions, setArchiveOptions] = useState({ includeEdited: true, includeManifest: true });
+  // Output preset applied to every result of the batch download, empty for the plain cutouts
+  const [archivePresetId, setArchivePresetId] = useState('');
+  // Crop of the batch download when no preset is chosen
+  const [archiveCrop, setArchiveCrop] = useState<CropSettings>(DEFAULT_CROP);
+  const [isPresetManagerOpen, setIsPresetManagerOpen] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [videoSettings, setVideoSettings] = useState<VideoSettings>({
+    bgType: 'color',
+    bgColor: '#00ff00',
+    bgImage: null,
+    smoothing: 50
+  });
+  const [selectedModel, setSelectedModel] = useState(DEFAULT_MODEL_KEY);
+  // Read by the queue runner without restarting it on every settings change
+  const videoSettingsRef = useRef(videoSettings);
+  videoSettingsRef.current = videoSettings;
+  const selectedModelRef = useRef(selectedModel);
+  selectedModelRef.current = selectedModel;
+  const [highResolution, setHighResolution] = useState(false);
+  const highResolutionRef = useRef(highResolution);
+  highResolutionRef.current = highResolution;
 
   useEffect(() => {
     // Initialize Lucide icons
@@ -63,49 +223,423 @@ export default function App() {
     }
   }, []);
 
+  // Download, compile and inference events of the model in the worker
+  useEffect(() => onModelEvent(event => setModelLoad(prev => reduceLoadProgress(prev, event))), []);
+
+  const history = useLiveQuery(getHistorySummary, [], { count: 0, bytes: 0 });
+  const customPresets = useLiveQuery(getCustomPresets, [], []);
+  const presets = useMemo(() => [...builtInPresets, ...customPresets], [customPresets]);
+
+  const restoreEditor = (stored: StoredImage) => {
+    const edits = stored.edits ? fromStoredEdits(stored.edits) : undefined;
+    setBgType(edits?.bgType ?? 'transparent');
+    setBgColor(edits?.bgColor ?? '#ffffff');
+    setCustomBgImage(stored.background ?? null);
+    setEffects(edits?.effects ?? []);
+    setPortrait(edits?.portrait ?? DEFAULT_PORTRAIT);
+    setGradient(edits?.gradient ?? DEFAULT_GRADIENT);
+    setPattern(edits?.pattern ?? DEFAULT_PATTERN);
+    setLayout(edits?.layout ?? DEFAULT_LAYOUT);
+    setSubjectStyle(edits?.subjectStyle ?? DEFAULT_SUBJECT_STYLE);
+    setCrop(edits?.crop ?? DEFAULT_CROP);
+  };
+
+  const openGallery = (stored: StoredImage[]) => {
+    nextImageIdRef.current = Math.max(nextImageIdRef.current, ...stored.map(image => image.id + 1));
+    setImages(stored.map(fromStoredImage));
+    setActiveImageId(null);
+    setCurrentState('batch');
+  };
+
+  // Bring back whatever was on screen before the page was reloaded
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const session = await loadSession();
+      if (!session || session.view === 'upload') return;
+      const stored = await loadImages(session.imageIds);
+      if (cancelled || stored.length === 0) return;
+
+      const active = stored.find(image => image.id === session.activeImageId);
+      if (session.view === 'result' && active?.result) {
+        nextImageIdRef.current = Math.max(nextImageIdRef.current, active.id + 1);
+        setImages([fromStoredImage(active)]);
+        setActiveImageId(active.id);
+        setCurrentFile(active.original);
+        setOriginalImageUrl(URL.createObjectURL(active.original));
+        const processedUrl = URL.createObjectURL(active.result);
+        setProcessedImageUrl(processedUrl);
+        setEditedImageUrl(processedUrl);
+        restoreEditor(active);
+        setCurrentState('result');
+      } else {
+        openGallery(stored);
+      }
+    })()
+      .catch(err => console.error("Failed to restore session:", err))
+      .finally(() => {
+        if (!cancelled) setIsSessionRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Remember what is on screen so a reload can restore it
+  useEffect(() => {
+    if (!isSessionRestored || currentState === 'loading') return;
+    persist(saveSession({
+      view: currentState,
+      imageIds: images.map(image => image.id),
+      activeImageId
+    }));
+  }, [isSessionRestored, currentState, images, activeImageId]);
+
+  const handleOpenHistory = async () => {
+    try {
+      openGallery(await loadImages());
+    } catch (err) {
+      setError({ message: "Failed to load saved images" });
+    }
+  };
+
+  const handleClearHistory = () => {
+    persist(clearHistory());
+  };
+
+  const updateImage = useCallback((id: number, patch: Partial<ImageFile>) => {
+    setImages(prev => prev.map(image => image.id === id ? { ...image, ...patch } : image));
+  }, []);
+
+  // Images the storage limit pushed out of the history leave the gallery too, the session
+  // effect then drops them from the saved ids
+  const persistImage = useCallback((task: Promise<number[]>) => {
+    persist(task.then(evicted => {
+      if (evicted.length > 0) {
+        setImages(prev => prev.filter(image => !evicted.includes(image.id)));
+      }
+    }));
+  }, []);
+
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
-    
-    const file = acceptedFiles[0];
-    setCurrentFile(file);
-    setOriginalImageUrl(URL.createObjectURL(file));
-    setCurrentState('loading');
+
+    // HEIC and TIFF are converted up front, a multi-page TIFF queues one image per page
+    setIsPreparing(true);
+    const { files, failures } = await prepareUploads(acceptedFiles);
+    setIsPreparing(false);
     setError(null);
-    
+    setUploadErrors(failures.map(({ file, error }) => ({ message: error.message, code: error.code, file })));
+    if (files.length === 0) return;
+
+    const queued: ImageFile[] = files.map(file => ({
+      id: nextImageIdRef.current++,
+      file,
+      status: 'queued'
+    }));
+    setImages(prev => [...prev, ...queued]);
+    queued.forEach(item => persistImage(saveImage(item.id, item.file)));
+
+    // A single still image on an empty queue keeps the one-image editor, anything else is a batch
+    const isSingleImage = queued.length === 1 && !isVideoFile(queued[0].file) && !(await isAnimatedGif(queued[0].file));
+    if (currentState === 'upload' && images.length === 0 && isSingleImage) {
+      const [item] = queued;
+      setActiveImageId(item.id);
+      setCurrentFile(item.file);
+      setOriginalImageUrl(URL.createObjectURL(item.file));
+      setProgress(null);
+      setCurrentState('loading');
+    } else {
+      setActiveImageId(null);
+      setCurrentState('batch');
+    }
+  }, [currentState, images.length, persistImage]);
+
+  // Work through the queue one image at a time
+  useEffect(() => {
+    if (processingId !== null) return;
+    const next = images.find(image => image.status === 'queued');
+    if (!next) return;
+
+    const controller = new AbortController();
+    setProcessingId(next.id);
+    abortControllerRef.current = controller;
+    updateImage(next.id, { status: 'processing', error: undefined });
+    setProgress(null);
+
+    (async () => {
+      try {
+        // Initialize model if needed
+        const modelInfo = await initializeEngine(selectedModelRef.current);
+
+        let processedFile: File;
+        let mask: AlphaMask | undefined;
+        let highResolution: boolean | undefined;
+        // Frame by frame work reports whole percents only, to keep the queue from re-rendering per frame
+        let lastPercent = -1;
+        const onFrameProgress = (value: number) => {
+          const percent = Math.floor(value * 100);
+          if (percent === lastPercent) return;
+          lastPercent = percent;
+          updateImage(next.id, { progress: value });
+        };
+        if (isVideoFile(next.file)) {
+          const settings = videoSettingsRef.current;
+          processedFile = await processVideo(next.file, {
+            background: settings.bgType === 'image' && settings.bgImage
+              ? { type: 'image', image: settings.bgImage }
+              : { type: 'color', color: settings.bgColor },
+            temporalSmoothing: settings.smoothing / 100,
+            signal: controller.signal,
+            onProgress: onFrameProgress
+          });
+        } else if (await isAnimatedGif(next.file)) {
+          processedFile = await processAnimatedGif(next.file, {
+            signal: controller.signal,
+            onProgress: onFrameProgress
+          });
+        } else {
+          // Process the image in the worker
+          highResolution = highResolutionRef.current;
+          const result = await removeBackground(next.file, {
+            signal: controller.signal,
+            onProgress: (stage, value) => setProgress({ stage, value }),
+            highResolution
+          });
+          processedFile = result.cutout;
+          mask = { data: result.mask, width: result.width, height: result.height };
+        }
+        const modelId = modelInfo.currentModelId;
+        updateImage(next.id, { status: 'done', processedFile, mask, modelId, highResolution });
+        persistImage(updateStoredImage(next.id, { result: processedFile, mask, matting: undefined, modelId, highResolution }));
+      } catch (err) {
+        // Cancelled items have already been removed from the queue
+        if (!controller.signal.aborted) {
+          updateImage(next.id, {
+            status: 'failed',
+            error: err instanceof Error ? err.message : "Failed to process image",
+            errorCode: getErrorCode(err)
+          });
+        }
+      } finally {
+        abortControllerRef.current = null;
+        setProcessingId(null);
+      }
+    })();
+  }, [images, processingId, updateImage, persistImage]);
+
+  // Move the single-image view along once its queue item settles
+  const activeImage = images.find(image => image.id === activeImageId);
+  useEffect(() => {
+    if (currentState !== 'loading' || !activeImage) return;
+
+    if (activeImage.status === 'done' && activeImage.processedFile) {
+      const processedUrl = URL.createObjectURL(activeImage.processedFile);
+      setProcessedImageUrl(processedUrl);
+      setEditedImageUrl(processedUrl); // Initialize edited version
+      setCurrentState('result');
+    } else if (activeImage.status === 'failed') {
+      setError({ message: activeImage.error || "Failed to process image", code: activeImage.errorCode, file: activeImage.file });
+      handleDeleteImage(activeImage.id);
+      if (originalImageUrl) URL.revokeObjectURL(originalImageUrl);
+      setOriginalImageUrl('');
+      setCurrentFile(null);
+      setActiveImageId(null);
+      setCurrentState('upload');
+    }
+  }, [activeImage, currentState]);
+
+  // Deleting the last card of a batch brings the uploader back
+  useEffect(() => {
+    if (currentState === 'batch' && images.length === 0) {
+      setCurrentState('upload');
+    }
+  }, [currentState, images.length]);
+
+  const handleDeleteImage = (id: number) => {
+    if (processingId === id) {
+      abortControllerRef.current?.abort();
+    }
+    setImages(prev => prev.filter(image => image.id !== id));
+    persist(deleteStoredImage(id));
+  };
+
+  // Some failures would happen again with the same settings: the tiled pass needs the most
+  // memory, and a missing backend needs the model that runs on WebAssembly everywhere
+  const prepareRetry = (code?: ProcessingErrorCode) => {
+    if (code === 'out-of-memory') setHighResolution(false);
+    if (code === 'backend-unavailable') setSelectedModel(DEFAULT_MODEL_KEY);
+  };
+
+  const handleRetryImage = (id: number) => {
+    prepareRetry(images.find(image => image.id === id)?.errorCode);
+    updateImage(id, {
+      status: 'queued',
+      error: undefined,
+      errorCode: undefined,
+      processedFile: undefined,
+      mask: undefined,
+      matting: undefined,
+      progress: undefined
+    });
+  };
+
+  const handleRetryFailed = () => {
+    images.filter(image => image.status === 'failed').forEach(image => handleRetryImage(image.id));
+  };
+
+  const handleRetryError = async (target: AppError) => {
+    if (!target.file) return;
+    prepareRetry(target.code);
+    // The other files of the same drop still failed, keep their banners
+    const others = uploadErrors.filter(item => item !== target);
+    await onDrop([target.file]);
+    setUploadErrors(prev => [...others, ...prev]);
+  };
+
+  const handleImageEdited = (id: number, editedFile: File, edits: EditSettings, background?: File) => {
+    updateImage(id, { editedFile, edits, background });
+    persistImage(updateStoredImage(id, { edited: editedFile, edits: { ...edits }, background }));
+  };
+
+  // A refined matte or new edge settings replace the cutout, any composite saved from the old one is dropped
+  const recomposeCutout = async (id: number, mask: AlphaMask, matting?: MattingSettings) => {
+    const image = images.find(item => item.id === id);
+    if (!image?.processedFile) return;
     try {
-      // Initialize model if needed
-      await initializeModel();
-      
-      // Process the image
-      const result = await processImages([file]);
-      if (result && result.length > 0) {
-        const processedUrl = URL.createObjectURL(result[0]);
+      const processedFile = await composeCutout(image.file, mask, image.processedFile.name, matting);
+      updateImage(id, { mask, matting, processedFile, editedFile: undefined });
+      persistImage(updateStoredImage(id, { mask, matting, result: processedFile, edited: undefined }));
+
+      if (id === activeImageId) {
+        if (processedImageUrl) URL.revokeObjectURL(processedImageUrl);
+        const processedUrl = URL.createObjectURL(processedFile);
         setProcessedImageUrl(processedUrl);
-        setEditedImageUrl(processedUrl); // Initialize edited version
-        setCurrentState('result');
-      } else {
-        throw new Error("Failed to process image");
+        setEditedImageUrl(processedUrl);
       }
     } catch (err) {
-      setError({
-        message: err instanceof Error ? err.message : "Failed to process image"
-      });
-      setCurrentState('upload');
+      setError({ message: err instanceof Error ? err.message : "Failed to apply mask changes" });
     }
-  }, []);
+  };
+
+  const handleMaskRefined = (id: number, mask: AlphaMask) => {
+    recomposeCutout(id, mask, images.find(item => item.id === id)?.matting);
+  };
+
+  const handleMattingChanged = (id: number, matting: MattingSettings) => {
+    const mask = images.find(item => item.id === id)?.mask;
+    if (mask) recomposeCutout(id, mask, matting);
+  };
+
+  const handleDownloadAll = async () => {
+    setIsLoading(true);
+    try {
+      const preset = presets.find(item => item.id === archivePresetId);
+      const entries = [];
+      // One image at a time, a batch of 2000px canvases would not fit in memory at once
+      for (const image of images.filter(item => item.status === 'done' && item.processedFile)) {
+        let processed = image.processedFile as File;
+        const { metadata } = exportSettings;
+        // Videos and animated GIFs have no mask, presets and cropping only apply to still cutouts
+        if (image.mask && preset) {
+          const edits = image.edits && createCompositeSpec({ ...image.edits, bgImage: image.background, original: image.file });
+          processed = await exportWithPreset(processed, image.file.name, preset, image.file, metadata, edits);
+        } else if (image.mask && archiveCrop.enabled) {
+          const cropped = await compositeToBlob(processed, { background: { type: 'transparent' }, effects: [], crop: archiveCrop });
+          processed = await tagForDownload(new File([cropped], processed.name, { type: cropped.type }), metadata, image.file);
+        } else {
+          processed = await tagForDownload(processed, metadata, image.file);
+        }
+        entries.push({
+          original: image.file,
+          processed,
+          edited: image.editedFile && await tagForDownload(image.editedFile, metadata, image.file),
+          modelId: image.modelId,
+          settings: {
+            matting: image.matting,
+            highResolution: image.highResolution,
+            preset: image.mask ? preset : undefined,
+            crop: image.mask && !preset && archiveCrop.enabled ? archiveCrop : undefined
+          },
+          edits: image.edits ? { ...image.edits } : undefined
+        });
+      }
+      await downloadResultsArchive(entries, archiveOptions);
+    } catch (err) {
+      setError({ message: err instanceof Error ? err.message : "Failed to create ZIP archive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-  const handleSampleImageClick = async (url: string) => {
-    setCurrentState('loading');
+  const handleCancel = () => {
+    if (activeImageId !== null) handleDeleteImage(activeImageId);
+    if (originalImageUrl) URL.revokeObjectURL(originalImageUrl);
+    setOriginalImageUrl('');
+    setCurrentFile(null);
+    setActiveImageId(null);
+    setProgress(null);
+    setCurrentState('upload');
+  };
+
+  const handleClearBatch = () => {
+    abortControllerRef.current?.abort();
+    setImages([]);
+    setProgress(null);
+    setCurrentState('upload');
+  };
+
+  // Downloaded images join the queue like dropped files
+  const handleImportUrl = useCallback(async (url: URL) => {
+    setIsPreparing(true);
     setError(null);
     try {
-      const response = await fetch(url);
-      const blob = await response.blob();
-      const file = new File([blob], 'sample-image.jpg', { type: 'image/jpeg' });
-      onDrop([file]);
-    } catch (error) {
-      setError({ message: "Failed to load sample image" });
-      setCurrentState('upload');
+      const file = await fetchImageFromUrl(url);
+      await onDrop([file]);
+    } catch (err) {
+      setError({ message: err instanceof Error ? err.message : "Failed to import image" });
+    } finally {
+      setIsPreparing(false);
+    }
+  }, [onDrop]);
+
+  const handleImportUrlSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const url = parseImageUrl(importUrl);
+    if (!url) {
+      setError({ message: "Enter an http:// or https:// link to an image" });
+      return;
     }
+    setImportUrl('');
+    handleImportUrl(url);
+  };
+
+  // Paste anywhere on the page: image data is queued right away, a lone URL is downloaded first
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (!event.clipboardData || currentState === 'loading') return;
+      // Text fields keep their normal paste
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const files = getClipboardFiles(event.clipboardData);
+      if (files.length > 0) {
+        event.preventDefault();
+        onDrop(files);
+        return;
+      }
+      const url = parseImageUrl(event.clipboardData.getData('text/plain'));
+      if (url) {
+        event.preventDefault();
+        handleImportUrl(url);
+      }
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [currentState, onDrop, handleImportUrl]);
+
+  const handleSampleImageClick = (url: string) => {
+    handleImportUrl(new URL(url));
   };
 
   const handleUploadNew = () => {
@@ -117,162 +651,108 @@ export default function App() {
     setProcessedImageUrl('');
     setEditedImageUrl('');
     setCurrentFile(null);
+    setImages([]);
+    setActiveImageId(null);
     setError(null);
+    setUploadErrors([]);
     // Reset editing state
     setBgType('transparent');
     setBgColor('#ffffff');
     setCustomBgImage(null);
-    setSelectedEffect('none');
-    setBlurValue(50);
-    setBrightnessValue(50);
-    setContrastValue(50);
+    setEffects([]);
+    setPortrait(DEFAULT_PORTRAIT);
+    setGradient(DEFAULT_GRADIENT);
+    setPattern(DEFAULT_PATTERN);
+    setLayout(DEFAULT_LAYOUT);
+    setSubjectStyle(DEFAULT_SUBJECT_STYLE);
+    setCrop(DEFAULT_CROP);
     setShowCustomColorPicker(false);
   };
 
-  const handleDownload = () => {
-    const downloadUrl = editedImageUrl || processedImageUrl;
-    if (downloadUrl) {
-      const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = 'cutoutify-result.png';
-      link.click();
-    }
+  const handleDownloadMask = async () => {
+    const mask = activeImage?.mask;
+    if (!mask || !currentFile) return;
+    const file = await tagForDownload(await maskToFile(mask, currentFile.name), exportSettings.metadata, currentFile);
+    const url = URL.createObjectURL(file);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
-  const getCurrentEffectValue = () => {
-    switch (selectedEffect) {
-      case 'blur':
-        return blurValue;
-      case 'brightness':
-        return brightnessValue;
-      case 'contrast':
-        return contrastValue;
-      default:
-        return 50;
-    }
+  const handleDownload = () => {
+    if (editedImageUrl || processedImageUrl) setIsExportOpen(true);
   };
 
-  const handleEffectValueChange = (value: number) => {
-    switch (selectedEffect) {
-      case 'blur':
-        setBlurValue(value);
-        break;
-      case 'brightness':
-        setBrightnessValue(value);
-        break;
-      case 'contrast':
-        setContrastValue(value);
-        break;
+  const handleCopy = async () => {
+    const url = editedImageUrl || processedImageUrl;
+    if (!url) return;
+    try {
+      await copyImageToClipboard(fetch(url).then(response => response.blob()));
+      setCopyStatus('copied');
+    } catch (err) {
+      console.error("Failed to copy image:", err);
+      setCopyStatus('failed');
     }
+    setTimeout(() => setCopyStatus(null), 2000);
   };
 
+  const editSpec = useMemo(() => createCompositeSpec({
+    bgType,
+    bgColor,
+    bgImage: customBgImage,
+    original: originalImageUrl,
+    portrait,
+    gradient,
+    pattern,
+    layout,
+    subjectStyle,
+    crop,
+    effects
+  }), [bgType, bgColor, customBgImage, originalImageUrl, portrait, gradient, pattern, layout, subjectStyle, crop, effects]);
+
   const applyChanges = async () => {
-    if (!processedImageUrl) return;
-    
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.src = processedImageUrl;
-    await new Promise(resolve => img.onload = resolve);
-    
-    canvas.width = img.width;
-    canvas.height = img.height;
-    
-    // Apply background (only if not transparent)
-    if (bgType === 'color') {
-      ctx.fillStyle = bgColor;
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-    } else if (bgType === 'image' && customBgImage) {
-      const bgImg = new Image();
-      bgImg.crossOrigin = 'anonymous';
-      const bgUrl = URL.createObjectURL(customBgImage);
-      bgImg.src = bgUrl;
-      await new Promise(resolve => bgImg.onload = resolve);
-      ctx.drawImage(bgImg, 0, 0, canvas.width, canvas.height);
-      URL.revokeObjectURL(bgUrl); // Clean up
-    }
-    
-    // Draw the processed image
-    ctx.drawImage(img, 0, 0);
-    
-    // Apply effects
-    if (selectedEffect !== 'none') {
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-      
-      switch (selectedEffect) {
-        case 'blur':
-          // Create a temporary canvas for blur effect
-          const tempCanvas = document.createElement('canvas');
-          const tempCtx = tempCanvas.getContext('2d');
-          if (!tempCtx) break;
-          
-          tempCanvas.width = canvas.width;
-          tempCanvas.height = canvas.height;
-          
-          // Draw current state to temp canvas
-          tempCtx.drawImage(canvas, 0, 0);
-          
-          // Clear main canvas
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-          
-          // Apply blur using CSS filter
-          ctx.filter = `blur(${blurValue / 10}px)`;
-          ctx.drawImage(tempCanvas, 0, 0);
-          ctx.filter = 'none';
-          break;
-          
-        case 'brightness':
-          for (let i = 0; i < data.length; i += 4) {
-            data[i] = Math.min(255, data[i] * (brightnessValue / 50));
-            data[i + 1] = Math.min(255, data[i + 1] * (brightnessValue / 50));
-            data[i + 2] = Math.min(255, data[i + 2] * (brightnessValue / 50));
-          }
-          ctx.putImageData(imageData, 0, 0);
-          break;
-          
-        case 'contrast':
-          // Map 0-100 to -100 to +100 with 50 as neutral (0)
-          const contrastAmount = (contrastValue - 50) * 2;
-          const factor = (259 * (contrastAmount + 255)) / (255 * (259 - contrastAmount));
-          for (let i = 0; i < data.length; i += 4) {
-            data[i] = Math.max(0, Math.min(255, factor * (data[i] - 128) + 128));
-            data[i + 1] = Math.max(0, Math.min(255, factor * (data[i + 1] - 128) + 128));
-            data[i + 2] = Math.max(0, Math.min(255, factor * (data[i + 2] - 128) + 128));
-          }
-          ctx.putImageData(imageData, 0, 0);
-          break;
-      }
-    }
-    
-    // Only create edited version if we're not using transparent background
-    if (bgType !== 'transparent' || selectedEffect !== 'none') {
-      const dataUrl = canvas.toDataURL('image/png');
-      
-      // Clean up old edited URL if it's different
-      if (editedImageUrl && editedImageUrl !== processedImageUrl) {
-        URL.revokeObjectURL(editedImageUrl);
-      }
-      
-      setEditedImageUrl(dataUrl);
-    } else {
-      // Use original processed image for transparent background with no effects
-      if (editedImageUrl && editedImageUrl !== processedImageUrl) {
-        URL.revokeObjectURL(editedImageUrl);
-      }
-      setEditedImageUrl(processedImageUrl);
-    }
+    const cutout = activeImage?.processedFile;
+    if (!cutout) return;
+
+    // Transparent without effects is the cutout itself, no need to render anything
+    const url = isIdentitySpec(editSpec) ? processedImageUrl : URL.createObjectURL(await compositeToBlob(cutout, editSpec));
+    setEditedImageUrl(prev => {
+      if (prev && prev !== processedImageUrl) URL.revokeObjectURL(prev);
+      return url;
+    });
   };
 
+  // Save the editor settings of the current image, debounced so sliders don't hammer IndexedDB
+  useEffect(() => {
+    if (currentState !== 'result' || activeImageId === null) return;
+    const timeout = setTimeout(() => {
+      const edits: EditSettings = {
+        bgType,
+        bgColor,
+        bgImage: bgType === 'image' ? customBgImage?.name : undefined,
+        portrait: bgType === 'portrait' ? portrait : undefined,
+        gradient: bgType === 'gradient' ? gradient : undefined,
+        pattern: bgType === 'pattern' ? pattern : undefined,
+        layout,
+        subjectStyle,
+        crop,
+        effects
+      };
+      persistImage(updateStoredImage(activeImageId, { edits: { ...edits }, background: customBgImage ?? undefined }));
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [bgType, bgColor, customBgImage, portrait, gradient, pattern, layout, subjectStyle, crop, effects, activeImageId, currentState, persistImage]);
+
   // Apply changes when editing options change
   useEffect(() => {
     if (processedImageUrl && currentState === 'result') {
       applyChanges();
     }
-  }, [bgType, bgColor, customBgImage, selectedEffect, blurValue, brightnessValue, contrastValue, processedImageUrl, currentState]);
+  }, [bgType, bgColor, customBgImage, portrait, gradient, pattern, layout, subjectStyle, crop, effects, processedImageUrl, originalImageUrl, currentState]);
+
+  const previewDrag = useLayoutDrag(layout, setLayout, bgType === 'image' && customBgImage ? layoutLayer : 'subject');
 
   const {
     getRootProps,
@@ -282,12 +762,15 @@ export default function App() {
   } = useDropzone({
     onDrop,
     accept: {
-      "image/*": [".jpeg", ".jpg", ".png", ".webp"],
+      "image/*": imageExtensions,
+      "video/*": [".mp4", ".webm", ".mov"],
     },
-    multiple: false,
+    multiple: true,
     noClick: true
   });
 
+  const shownErrors = error ? [error, ...uploadErrors] : uploadErrors;
+
   return (
     <div className="bg-slate-50 text-gray-800">
       {/* Header */}
@@ -352,7 +835,9 @@ export default function App() {
                       </svg>
                     </div>
                     <p className="text-lg font-semibold text-gray-700">
-                      {isDragActive ? "Drop the image here..." : "Drag & drop an image here"}
+                      {isPreparing
+                        ? "Reading files..."
+                        : isDragActive ? "Drop the images here..." : "Drag & drop images or short videos here"}
                     </p>
                     <p className="text-gray-500">or</p>
                     <button 
@@ -362,12 +847,63 @@ export default function App() {
                     >
                       Select File
                     </button>
+                    <p className="text-sm text-gray-500">You can also paste an image or an image link anywhere on the page</p>
                   </div>
                 </div>
 
-                {error && (
-                  <div className="mt-4 p-4 bg-red-50 text-red-600 rounded-lg">
-                    {error.message}
+                <form onSubmit={handleImportUrlSubmit} className="mt-4 flex gap-2">
+                  <input
+                    type="url"
+                    value={importUrl}
+                    onChange={(e) => setImportUrl(e.target.value)}
+                    placeholder="https://example.com/photo.jpg"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!importUrl.trim() || isPreparing}
+                    className="px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium text-gray-700 disabled:opacity-50"
+                  >
+                    Import URL
+                  </button>
+                </form>
+
+                {shownErrors.map((item, index) => (
+                  <ErrorBanner
+                    key={index}
+                    message={item.message}
+                    code={item.code}
+                    onRetry={item.file ? () => handleRetryError(item) : undefined}
+                    className="mt-4"
+                  />
+                ))}
+
+                <div className="mt-4">
+                  <ModelSelector
+                    value={selectedModel}
+                    onChange={setSelectedModel}
+                    highResolution={highResolution}
+                    onHighResolutionChange={setHighResolution}
+                  />
+                </div>
+
+                {history.count > 0 && (
+                  <div className="mt-4 flex flex-col md:flex-row items-center justify-center gap-3 text-sm text-gray-600">
+                    <span>{history.count} saved {history.count === 1 ? 'image' : 'images'} ({formatBytes(history.bytes)})</span>
+                    <button
+                      type="button"
+                      onClick={handleOpenHistory}
+                      className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors font-medium text-gray-700"
+                    >
+                      Open Gallery
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleClearHistory}
+                      className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors font-medium text-red-600"
+                    >
+                      Clear History
+                    </button>
                   </div>
                 )}
 
@@ -394,11 +930,241 @@ export default function App() {
               <div id="loading-state">
                 <div className="flex flex-col items-center justify-center p-12 space-y-4">
                   <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-                  <p className="text-lg text-gray-600">Removing background...</p>
+                  {modelLoad.phase === 'download' ? (
+                    <>
+                      <p className="text-lg text-gray-600">Downloading model...</p>
+                      <div className="w-full max-w-sm h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-blue-600 transition-all duration-300"
+                          style={{ width: `${modelLoad.total ? Math.round((modelLoad.loaded / modelLoad.total) * 100) : 0}%` }}
+                        />
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        {formatBytes(modelLoad.loaded)} of {formatBytes(modelLoad.total)}
+                        {modelLoad.eta !== undefined && ` · about ${formatEta(modelLoad.eta)} left`}
+                      </p>
+                    </>
+                  ) : modelLoad.phase === 'compile' ? (
+                    <p className="text-lg text-gray-600">
+                      Preparing model for {modelLoad.device === 'webgpu' ? 'WebGPU' : 'WebAssembly'}...
+                    </p>
+                  ) : (
+                    <>
+                      <p className="text-lg text-gray-600">
+                        {progress ? stageLabels[progress.stage] : 'Loading model...'}
+                      </p>
+                      <div className="w-full max-w-sm h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-blue-600 transition-all duration-300"
+                          style={{ width: `${Math.round((progress?.value ?? 0) * 100)}%` }}
+                        />
+                      </div>
+                      {modelLoad.device && (
+                        <p className="text-sm text-gray-500">
+                          Running on {modelLoad.device === 'webgpu' ? 'WebGPU' : 'WebAssembly'}
+                          {modelLoad.lastInference !== undefined && ` · last pass ${Math.round(modelLoad.lastInference)} ms`}
+                        </p>
+                      )}
+                    </>
+                  )}
+                  <button
+                    onClick={handleCancel}
+                    className="px-4 py-2 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium text-gray-700"
+                  >
+                    Cancel
+                  </button>
                 </div>
               </div>
             )}
 
+            {/* Batch State */}
+            {currentState === 'batch' && (
+              <div id="batch-state" {...getRootProps()} className={`rounded-xl ${isDragActive ? 'dropzone-active' : ''}`}>
+                <input {...getInputProps()} />
+                <div className="flex flex-col md:flex-row items-center justify-between gap-4 mb-6">
+                  <p className="font-semibold text-gray-700">
+                    {images.filter(image => image.status === 'done').length} of {images.length} processed
+                    {images.some(image => image.status === 'failed') && (
+                      <span className="text-red-600 ml-2">
+                        ({images.filter(image => image.status === 'failed').length} failed)
+                      </span>
+                    )}
+                  </p>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={handleDownloadAll}
+                      disabled={isLoading || !images.some(image => image.status === 'done')}
+                      className="bg-green-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isLoading ? 'Zipping...' : 'Download All'}
+                    </button>
+                    {images.some(image => image.status === 'failed') && (
+                      <button
+                        type="button"
+                        onClick={handleRetryFailed}
+                        className="bg-white text-gray-800 border border-gray-300 px-4 py-2 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+                      >
+                        Retry Failed
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={open}
+                      className="bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+                    >
+                      Add Images
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleClearBatch}
+                      className="bg-gray-200 text-gray-800 px-4 py-2 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
+                    >
+                      Start Over
+                    </button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap justify-between items-center gap-4 mb-4 text-sm text-gray-600">
+                  <ModelSelector
+                    value={selectedModel}
+                    onChange={setSelectedModel}
+                    highResolution={highResolution}
+                    onHighResolutionChange={setHighResolution}
+                  />
+                  <div className="flex flex-wrap gap-4">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={archiveOptions.includeEdited}
+                        onChange={(e) => setArchiveOptions(prev => ({ ...prev, includeEdited: e.target.checked }))}
+                      />
+                      Include edited versions
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={archiveOptions.includeManifest}
+                        onChange={(e) => setArchiveOptions(prev => ({ ...prev, includeManifest: e.target.checked }))}
+                      />
+                      Include manifest.json
+                    </label>
+                    <label className="flex items-center gap-2">
+                      Preset
+                      <select
+                        value={archivePresetId}
+                        onChange={(e) => setArchivePresetId(e.target.value)}
+                        className="px-2 py-1 bg-white border border-gray-200 rounded"
+                      >
+                        <option value="">None</option>
+                        {presets.map(preset => (
+                          <option key={preset.id} value={preset.id}>{preset.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setIsPresetManagerOpen(true)}
+                      className="text-blue-600 hover:text-blue-700"
+                    >
+                      Manage presets
+                    </button>
+                  </div>
+                </div>
+                {!archivePresetId && (
+                  <div className="mb-4 text-left">
+                    <CropControls value={archiveCrop} onChange={setArchiveCrop} />
+                  </div>
+                )}
+                <div className="mb-4 text-left text-sm text-gray-600">
+                  <h3 className="font-medium text-gray-700 mb-2">Metadata</h3>
+                  <MetadataControls
+                    value={exportSettings.metadata}
+                    onChange={(metadata) => setExportSettings(prev => ({ ...prev, metadata }))}
+                  />
+                </div>
+                <PresetManager
+                  isOpen={isPresetManagerOpen}
+                  onClose={() => setIsPresetManagerOpen(false)}
+                  presets={presets}
+                  onSave={(saved) => persist(saveCustomPresets(saved))}
+                  onDelete={(id) => {
+                    if (archivePresetId === id) setArchivePresetId('');
+                    persist(deleteCustomPreset(id));
+                  }}
+                />
+                {shownErrors.map((item, index) => (
+                  <ErrorBanner
+                    key={index}
+                    message={item.message}
+                    code={item.code}
+                    onRetry={item.file ? () => handleRetryError(item) : undefined}
+                    className="mb-4"
+                  />
+                ))}
+                {images.some(image => isVideoFile(image.file)) && (
+                  <div className="mb-6 bg-gray-50 rounded-lg p-4 text-left">
+                    <h4 className="font-medium text-gray-700 mb-1">Video Settings</h4>
+                    <p className="text-sm text-gray-500 mb-3">
+                      Applies to videos that have not been processed yet. Clips can be up to {MAX_VIDEO_DURATION} seconds long.
+                    </p>
+                    <div className="flex flex-wrap items-center gap-4">
+                      <div className="flex gap-2">
+                        {(['color', 'image'] as const).map(type => (
+                          <button
+                            key={type}
+                            type="button"
+                            onClick={() => setVideoSettings(prev => ({ ...prev, bgType: type }))}
+                            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                              videoSettings.bgType === type
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-200'
+                            }`}
+                          >
+                            {type === 'color' ? 'Solid Color' : 'Image'}
+                          </button>
+                        ))}
+                      </div>
+                      {videoSettings.bgType === 'color' ? (
+                        <input
+                          type="color"
+                          value={videoSettings.bgColor}
+                          onChange={(e) => setVideoSettings(prev => ({ ...prev, bgColor: e.target.value }))}
+                          className="w-10 h-10 border border-gray-300 rounded-lg cursor-pointer"
+                        />
+                      ) : (
+                        <input
+                          type="file"
+                          accept="image/*"
+                          onChange={(e) => setVideoSettings(prev => ({ ...prev, bgImage: e.target.files?.[0] || null }))}
+                          className="p-2 border border-gray-300 rounded-lg bg-white text-sm"
+                        />
+                      )}
+                      <label className="flex items-center gap-2 text-sm text-gray-600">
+                        Flicker reduction
+                        <input
+                          type="range"
+                          min="0"
+                          max="90"
+                          value={videoSettings.smoothing}
+                          onChange={(e) => setVideoSettings(prev => ({ ...prev, smoothing: Number(e.target.value) }))}
+                        />
+                        <span className="w-8">{videoSettings.smoothing}</span>
+                      </label>
+                    </div>
+                  </div>
+                )}
+                <Images
+                  images={images}
+                  onDelete={handleDeleteImage}
+                  onRetry={handleRetryImage}
+                  onEdited={handleImageEdited}
+                  onMaskRefined={handleMaskRefined}
+                  onMattingChanged={handleMattingChanged}
+                  metadata={exportSettings.metadata}
+                />
+              </div>
+            )}
+
             {/* Result State */}
             {currentState === 'result' && (
               <div id="result-state">
@@ -419,12 +1185,53 @@ export default function App() {
                         src={editedImageUrl || processedImageUrl} 
                         alt="Result" 
                         className="w-full h-auto object-contain" 
-                        style={{maxHeight: '300px'}} 
+                        {...previewDrag}
+                        style={{maxHeight: '300px', ...previewDrag.style}} 
                       />
                     </div>
+                    {activeImage?.mask && (
+                      <button
+                        onClick={() => setIsMaskEditorOpen(true)}
+                        className="mt-3 px-4 py-2 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium text-gray-700"
+                      >
+                        Refine Mask
+                      </button>
+                    )}
                   </div>
                 </div>
 
+                <ExportDialog
+                  isOpen={isExportOpen}
+                  onClose={() => setIsExportOpen(false)}
+                  sourceUrl={editedImageUrl || processedImageUrl}
+                  cutoutUrl={processedImageUrl}
+                  sourceName={currentFile?.name ?? 'cutoutify-result'}
+                  value={exportSettings}
+                  onChange={setExportSettings}
+                  presets={presets}
+                  original={currentFile}
+                  edits={editSpec}
+                />
+
+                {activeImage?.mask && currentFile && (
+                  <MaskEditor
+                    original={currentFile}
+                    mask={activeImage.mask}
+                    isOpen={isMaskEditorOpen}
+                    onClose={() => setIsMaskEditorOpen(false)}
+                    onApply={(mask) => handleMaskRefined(activeImage.id, mask)}
+                  />
+                )}
+
+                {activeImage?.mask && (
+                  <div className="mt-8 bg-gray-50 rounded-lg p-6 text-left">
+                    <MattingControls
+                      value={activeImage.matting ?? DEFAULT_MATTING}
+                      onChange={(matting) => handleMattingChanged(activeImage.id, matting)}
+                    />
+                  </div>
+                )}
+
                 {/* Editing Controls */}
                 <div className="mt-8 bg-gray-50 rounded-lg p-6">
                   <h3 className="font-semibold text-lg text-gray-800 mb-4">Customize Background</h3>
@@ -480,6 +1287,24 @@ export default function App() {
                       </div>
                     )}
 
+                    {bgType === 'gradient' && (
+                      <div className="bg-white p-4 rounded-lg border border-gray-200">
+                        <GradientControls value={gradient} onChange={setGradient} />
+                      </div>
+                    )}
+
+                    {bgType === 'pattern' && (
+                      <div className="bg-white p-4 rounded-lg border border-gray-200">
+                        <PatternControls value={pattern} onChange={setPattern} />
+                      </div>
+                    )}
+
+                    {bgType === 'portrait' && (
+                      <div className="bg-white p-4 rounded-lg border border-gray-200">
+                        <PortraitControls value={portrait} onChange={setPortrait} />
+                      </div>
+                    )}
+
                     {bgType === 'image' && (
                       <div className="space-y-4">
                         {/* Upload Your Own */}
@@ -549,46 +1374,38 @@ export default function App() {
                     )}
                   </div>
 
-                  {/* Effects Section */}
+                  {/* Layout Section */}
                   <div className="mb-6">
-                    <h4 className="font-medium text-gray-700 mb-3">Effects</h4>
-                    <div className="flex gap-2 mb-4 flex-wrap">
-                      {effectOptions.map(option => (
-                        <button
-                          key={option.id}
-                          onClick={() => setSelectedEffect(option.id)}
-                          className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                            selectedEffect === option.id
-                              ? 'bg-blue-600 text-white'
-                              : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-200'
-                          }`}
-                        >
-                          {option.label}
-                        </button>
-                      ))}
+                    <h4 className="font-medium text-gray-700 mb-3">Layout</h4>
+                    <div className="bg-white p-4 rounded-lg border border-gray-200">
+                      <LayoutControls
+                        value={layout}
+                        onChange={setLayout}
+                        layer={layoutLayer}
+                        onLayerChange={setLayoutLayer}
+                        hasBackgroundImage={bgType === 'image' && !!customBgImage}
+                      />
                     </div>
+                  </div>
 
-                    {selectedEffect !== 'none' && (
-                      <div className="bg-white p-4 rounded-lg border border-gray-200">
-                        <div className="flex items-center gap-4">
-                          <label className="text-sm font-medium text-gray-600 min-w-0 flex-shrink-0">
-                            {selectedEffect === 'blur' ? 'Blur Amount' : 
-                             selectedEffect === 'brightness' ? 'Brightness' : 'Contrast'}:
-                          </label>
-                          <input
-                            type="range"
-                            min="0"
-                            max="100"
-                            value={getCurrentEffectValue()}
-                            onChange={(e) => handleEffectValueChange(Number(e.target.value))}
-                            className="flex-1"
-                          />
-                          <span className="text-sm font-medium text-gray-600 min-w-0 flex-shrink-0">
-                            {getCurrentEffectValue()}
-                          </span>
-                        </div>
-                      </div>
-                    )}
+                  {/* Crop Section */}
+                  <div className="mb-6">
+                    <h4 className="font-medium text-gray-700 mb-3">Crop</h4>
+                    <div className="bg-white p-4 rounded-lg border border-gray-200">
+                      <CropControls value={crop} onChange={setCrop} />
+                    </div>
+                  </div>
+
+                  {/* Subject Style Section */}
+                  <div className="mb-6">
+                    <h4 className="font-medium text-gray-700 mb-3">Shadow &amp; Outline</h4>
+                    <SubjectStyleControls value={subjectStyle} onChange={setSubjectStyle} />
+                  </div>
+
+                  {/* Effects Section */}
+                  <div className="mb-6">
+                    <h4 className="font-medium text-gray-700 mb-3">Effects</h4>
+                    <EffectsStack effects={effects} onChange={setEffects} />
                   </div>
                 </div>
 
@@ -599,6 +1416,20 @@ export default function App() {
                   >
                     Download HD
                   </button>
+                  <button 
+                    onClick={handleCopy}
+                    className="bg-white text-gray-800 border border-gray-300 px-8 py-3 rounded-lg font-bold text-lg hover:bg-gray-50 transition w-full md:w-auto"
+                  >
+                    {copyStatus === 'copied' ? 'Copied!' : copyStatus === 'failed' ? 'Copy failed' : 'Copy'}
+                  </button>
+                  {activeImage?.mask && (
+                    <button 
+                      onClick={handleDownloadMask}
+                      className="bg-white text-gray-800 border border-gray-300 px-8 py-3 rounded-lg font-bold text-lg hover:bg-gray-50 transition w-full md:w-auto"
+                    >
+                      Download Mask
+                    </button>
+                  )}
                   <button 
                     onClick={handleUploadNew}
                     className="bg-gray-200 text-gray-800 px-8 py-3 rounded-lg font-bold text-lg hover:bg-gray-300 transition w-full md:w-auto"
@@ -661,7 +1492,7 @@ export default function App() {
                   <div className="relative z-10 flex-shrink-0 w-16 h-16 bg-blue-600 text-white text-2xl font-bold rounded-full flex items-center justify-center">3</div>
                   <div className="text-center">
                     <h4 className="font-semibold text-xl">Download</h4>
-                    <p className="text-gray-600 mt-1">Download your new image with a transparent background as a PNG file.</p>
+                    <p className="text-gray-600 mt-1">Download your new image with a transparent background as PNG, WebP, JPEG or AVIF, at the size you need.</p>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,56 @@
+import React from "react";
+import { aspectOptions, type CropSettings } from "../../lib/crop";
+
+interface CropControlsProps {
+  value: CropSettings;
+  onChange: (settings: CropSettings) => void;
+}
+
+export function CropControls({ value, onChange }: CropControlsProps) {
+  return (
+    <div className="space-y-2 text-sm text-gray-600">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+        />
+        Crop to subject
+      </label>
+      {value.enabled && (
+        <>
+          <div className="flex items-center gap-3">
+            <span className="w-24 shrink-0">Padding</span>
+            <input
+              type="number"
+              min="0"
+              value={value.padding}
+              onChange={(e) => onChange({ ...value, padding: Math.max(0, Number(e.target.value)) })}
+              className="w-20 px-2 py-1 border border-gray-200 rounded"
+            />
+            <select
+              value={value.unit}
+              onChange={(e) => onChange({ ...value, unit: e.target.value as CropSettings['unit'] })}
+              className="px-2 py-1 bg-white border border-gray-200 rounded"
+            >
+              <option value="percent">% of subject</option>
+              <option value="px">px</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-3">
+            <span className="w-24 shrink-0">Aspect ratio</span>
+            <select
+              value={value.aspect}
+              onChange={(e) => onChange({ ...value, aspect: Number(e.target.value) })}
+              className="px-2 py-1 bg-white border border-gray-200 rounded"
+            >
+              {aspectOptions.map(option => (
+                <option key={option.label} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
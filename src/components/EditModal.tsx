@@ -1,165 +1,162 @@
 import React, { useState, useEffect } from 'react';
 import type { ImageFile } from "../App";
+import type { AlphaMask } from "../../lib/process";
+import { MaskEditor } from "./MaskEditor";
+import { MattingControls } from "./MattingControls";
+import { DEFAULT_MATTING, type MattingSettings } from "../../lib/matting";
+import {
+  predefinedColors,
+  createCompositeSpec,
+  compositeToBlob,
+  DEFAULT_PORTRAIT,
+  DEFAULT_LAYOUT,
+  DEFAULT_GRADIENT,
+  DEFAULT_PATTERN,
+  DEFAULT_SUBJECT_STYLE,
+  type Effect,
+  type GradientSettings,
+  type LayoutSettings,
+  type PatternSettings,
+  type PortraitSettings,
+  type SubjectStyle
+} from "../../lib/compositor";
+import { EffectsStack } from "./EffectsStack";
+import { PortraitControls } from "./PortraitControls";
+import { GradientControls } from "./GradientControls";
+import { PatternControls } from "./PatternControls";
+import { SubjectStyleControls } from "./SubjectStyleControls";
+import { CropControls } from "./CropControls";
+import { DEFAULT_CROP, type CropSettings } from "../../lib/crop";
+import { LayoutControls, useLayoutDrag, type LayoutLayer } from "./LayoutControls";
+import { useObjectUrl } from "./useObjectUrl";
+
+export interface EditSettings {
+  bgType: string;
+  bgColor: string;
+  bgImage?: string;
+  // Only set for the background type they belong to
+  portrait?: PortraitSettings;
+  gradient?: GradientSettings;
+  pattern?: PatternSettings;
+  // Placement of the background image and the subject, missing in edits saved before it existed
+  layout?: LayoutSettings;
+  // Shadows, outline and glow around the subject
+  subjectStyle?: SubjectStyle;
+  crop?: CropSettings;
+  // Applied in order, see lib/compositor.ts
+  effects: Effect[];
+}
 
 interface EditModalProps {
   image: ImageFile;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (url: string) => void;
+  // The custom background image is passed along so it can be stored with the settings
+  onSave: (result: Blob, settings: EditSettings, background?: File) => void;
+  onRefineMask?: (mask: AlphaMask) => void;
+  onMattingChange?: (settings: MattingSettings) => void;
 }
 
 const backgroundOptions = [
   { id: 'color', label: 'Solid Color' },
-  { id: 'image', label: 'Image' }
-];
-
-const effectOptions = [
-  { id: 'none', label: 'None' },
-  { id: 'blur', label: 'Blur' },
-  { id: 'brightness', label: 'Bright' },
-  { id: 'contrast', label: 'Contrast' }
+  { id: 'gradient', label: 'Gradient' },
+  { id: 'pattern', label: 'Pattern' },
+  { id: 'image', label: 'Image' },
+  { id: 'portrait', label: 'Portrait Blur' }
 ];
 
-const predefinedColors = [
-  '#ffffff', '#000000', '#ff0000', '#00ff00', '#0000ff',
-  '#ffff00', '#00ffff', '#ff00ff', '#808080', '#c0c0c0'
-];
-
-const predefinedPatterns = [
-  { id: 'dots', label: 'Dots' },
-  { id: 'lines', label: 'Lines' },
-  { id: 'grid', label: 'Grid' },
-  { id: 'waves', label: 'Waves' }
-];
-
-export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
+export function EditModal({ image, isOpen, onClose, onSave, onRefineMask, onMattingChange }: EditModalProps) {
   const [bgType, setBgType] = useState('color');
   const [bgColor, setBgColor] = useState('#ffffff');
   const [customBgImage, setCustomBgImage] = useState<File | null>(null);
-  const [selectedEffect, setSelectedEffect] = useState('none');
-  const [blurValue, setBlurValue] = useState(50);
-  const [brightnessValue, setBrightnessValue] = useState(50);
-  const [contrastValue, setContrastValue] = useState(50);
-  const [exportUrl, setExportUrl] = useState('');
+  const [effects, setEffects] = useState<Effect[]>([]);
+  const [portrait, setPortrait] = useState<PortraitSettings>(DEFAULT_PORTRAIT);
+  const [gradient, setGradient] = useState<GradientSettings>(DEFAULT_GRADIENT);
+  const [pattern, setPattern] = useState<PatternSettings>(DEFAULT_PATTERN);
+  const [layout, setLayout] = useState<LayoutSettings>(DEFAULT_LAYOUT);
+  const [subjectStyle, setSubjectStyle] = useState<SubjectStyle>(DEFAULT_SUBJECT_STYLE);
+  const [crop, setCrop] = useState<CropSettings>(DEFAULT_CROP);
+  const [layoutLayer, setLayoutLayer] = useState<LayoutLayer>('subject');
+  const [preview, setPreview] = useState<Blob | null>(null);
+  // The preview lags the settings while a render is running, saving then would store the old image
+  const [isRendering, setIsRendering] = useState(false);
   const [showCustomColorPicker, setShowCustomColorPicker] = useState(false);
+  const [isMaskEditorOpen, setIsMaskEditorOpen] = useState(false);
+
+  // Pick up where the last edit of this image left off
+  useEffect(() => {
+    if (!isOpen) return;
+    const edits = image.edits;
+    setBgType(edits?.bgType ?? 'color');
+    setBgColor(edits?.bgColor ?? '#ffffff');
+    setCustomBgImage(image.background ?? null);
+    setEffects(edits?.effects ?? []);
+    setPortrait(edits?.portrait ?? DEFAULT_PORTRAIT);
+    setGradient(edits?.gradient ?? DEFAULT_GRADIENT);
+    setPattern(edits?.pattern ?? DEFAULT_PATTERN);
+    setLayout(edits?.layout ?? DEFAULT_LAYOUT);
+    setSubjectStyle(edits?.subjectStyle ?? DEFAULT_SUBJECT_STYLE);
+    setCrop(edits?.crop ?? DEFAULT_CROP);
+  }, [isOpen, image.edits, image.background]);
 
-  const processedURL = image.processedFile ? URL.createObjectURL(image.processedFile) : '';
+  const processedURL = useObjectUrl(image.processedFile);
+  const exportUrl = useObjectUrl(preview);
 
+  // Every gallery card mounts an editor, only an open one renders and keeps a preview
   useEffect(() => {
-    if (image.processedFile) {
-      applyChanges();
+    const cutout = image.processedFile;
+    if (!isOpen || !cutout) {
+      setPreview(null);
+      setIsRendering(false);
+      return;
     }
-  }, [bgType, bgColor, customBgImage, selectedEffect, blurValue, brightnessValue, contrastValue]);
+    let cancelled = false;
+    setIsRendering(true);
 
-  const getCurrentEffectValue = () => {
-    switch (selectedEffect) {
-      case 'blur':
-        return blurValue;
-      case 'brightness':
-        return brightnessValue;
-      case 'contrast':
-        return contrastValue;
-      default:
-        return 50;
-    }
-  };
+    const spec = createCompositeSpec({
+      bgType,
+      bgColor,
+      bgImage: customBgImage,
+      original: image.file,
+      portrait,
+      gradient,
+      pattern,
+      layout,
+      subjectStyle,
+      crop,
+      effects
+    });
+    compositeToBlob(cutout, spec)
+      .then(blob => {
+        if (!cancelled) setPreview(blob);
+      })
+      .catch(error => console.error("Failed to render preview:", error))
+      .finally(() => {
+        if (!cancelled) setIsRendering(false);
+      });
 
-  const handleEffectValueChange = (value: number) => {
-    switch (selectedEffect) {
-      case 'blur':
-        setBlurValue(value);
-        break;
-      case 'brightness':
-        setBrightnessValue(value);
-        break;
-      case 'contrast':
-        setContrastValue(value);
-        break;
-    }
-  };
+    return () => {
+      cancelled = true;
+    };
+  }, [bgType, bgColor, customBgImage, portrait, gradient, pattern, layout, subjectStyle, crop, effects, image.file, image.processedFile, isOpen]);
 
-  const applyChanges = async () => {
-    if (!image.processedFile) return;
-    
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    const img = new Image();
-    img.src = processedURL;
-    await new Promise(resolve => img.onload = resolve);
-    
-    canvas.width = img.width;
-    canvas.height = img.height;
-    
-    // Apply background
-    if (bgType === 'color') {
-      ctx.fillStyle = bgColor;
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-    } else if (bgType === 'image' && customBgImage) {
-      const bgImg = new Image();
-      bgImg.src = URL.createObjectURL(customBgImage);
-      await new Promise(resolve => bgImg.onload = resolve);
-      ctx.drawImage(bgImg, 0, 0, canvas.width, canvas.height);
-    }
-    
-    // Draw the processed image
-    ctx.drawImage(img, 0, 0);
-    
-    // Apply effects
-    if (selectedEffect !== 'none') {
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-      
-      switch (selectedEffect) {
-        case 'blur':
-          // Create a temporary canvas for blur effect
-          const tempCanvas = document.createElement('canvas');
-          const tempCtx = tempCanvas.getContext('2d');
-          if (!tempCtx) break;
-          
-          tempCanvas.width = canvas.width;
-          tempCanvas.height = canvas.height;
-          
-          // Draw current state to temp canvas
-          tempCtx.drawImage(canvas, 0, 0);
-          
-          // Clear main canvas
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-          
-          // Apply blur using CSS filter
-          ctx.filter = `blur(${blurValue / 10}px)`;
-          ctx.drawImage(tempCanvas, 0, 0);
-          ctx.filter = 'none';
-          break;
-          
-        case 'brightness':
-          for (let i = 0; i < data.length; i += 4) {
-            data[i] = Math.min(255, data[i] * (brightnessValue / 50));
-            data[i + 1] = Math.min(255, data[i + 1] * (brightnessValue / 50));
-            data[i + 2] = Math.min(255, data[i + 2] * (brightnessValue / 50));
-          }
-          ctx.putImageData(imageData, 0, 0);
-          break;
-          
-        case 'contrast':
-          const factor = (259 * (contrastValue + 255)) / (255 * (259 - contrastValue));
-          for (let i = 0; i < data.length; i += 4) {
-            data[i] = factor * (data[i] - 128) + 128;
-            data[i + 1] = factor * (data[i + 1] - 128) + 128;
-            data[i + 2] = factor * (data[i + 2] - 128) + 128;
-          }
-          ctx.putImageData(imageData, 0, 0);
-          break;
-      }
-    }
-    
-    const dataUrl = canvas.toDataURL('image/png');
-    setExportUrl(dataUrl);
-  };
+  const hasBackgroundImage = bgType === 'image' && !!customBgImage;
+  const previewDrag = useLayoutDrag(layout, setLayout, hasBackgroundImage ? layoutLayer : 'subject');
 
   const handleSave = () => {
-    onSave(exportUrl);
+    if (isRendering || !preview) return;
+    onSave(preview, {
+      bgType,
+      bgColor,
+      bgImage: bgType === 'image' ? customBgImage?.name : undefined,
+      portrait: bgType === 'portrait' ? portrait : undefined,
+      gradient: bgType === 'gradient' ? gradient : undefined,
+      pattern: bgType === 'pattern' ? pattern : undefined,
+      layout,
+      subjectStyle,
+      crop,
+      effects
+    }, customBgImage ?? undefined);
     onClose();
   };
 
@@ -229,6 +226,12 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
                 </div>
               )}
 
+              {bgType === 'gradient' && <GradientControls value={gradient} onChange={setGradient} />}
+
+              {bgType === 'pattern' && <PatternControls value={pattern} onChange={setPattern} />}
+
+              {bgType === 'portrait' && <PortraitControls value={portrait} onChange={setPortrait} />}
+
               {bgType === 'image' && (
                 <input
                   type="file"
@@ -240,41 +243,34 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
             </div>
 
             <div>
-              <h3 className="font-medium text-gray-700 mb-2">Effects</h3>
-              <div className="flex gap-2 mb-4">
-                {effectOptions.map(option => (
-                  <button
-                    key={option.id}
-                    onClick={() => setSelectedEffect(option.id)}
-                    className={`px-3 py-1 rounded ${
-                      selectedEffect === option.id
-                        ? 'bg-blue-500 text-white'
-                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                    }`}
-                  >
-                    {option.label}
-                  </button>
-                ))}
-              </div>
+              <h3 className="font-medium text-gray-700 mb-2">Layout</h3>
+              <LayoutControls
+                value={layout}
+                onChange={setLayout}
+                layer={layoutLayer}
+                onLayerChange={setLayoutLayer}
+                hasBackgroundImage={hasBackgroundImage}
+              />
+            </div>
 
-              {selectedEffect !== 'none' && (
-                <div>
-                  <input
-                    type="range"
-                    min="0"
-                    max="100"
-                    value={getCurrentEffectValue()}
-                    onChange={(e) => handleEffectValueChange(Number(e.target.value))}
-                    className="w-full"
-                  />
-                  <div className="flex justify-between text-sm text-gray-500">
-                    <span>0</span>
-                    <span>{getCurrentEffectValue()}</span>
-                    <span>100</span>
-                  </div>
-                </div>
-              )}
+            <div>
+              <h3 className="font-medium text-gray-700 mb-2">Crop</h3>
+              <CropControls value={crop} onChange={setCrop} />
+            </div>
+
+            <div>
+              <h3 className="font-medium text-gray-700 mb-2">Shadow &amp; Outline</h3>
+              <SubjectStyleControls value={subjectStyle} onChange={setSubjectStyle} />
             </div>
+
+            <div>
+              <h3 className="font-medium text-gray-700 mb-2">Effects</h3>
+              <EffectsStack effects={effects} onChange={setEffects} />
+            </div>
+
+            {image.mask && onMattingChange && (
+              <MattingControls value={image.matting ?? DEFAULT_MATTING} onChange={onMattingChange} />
+            )}
           </div>
 
           <div>
@@ -284,8 +280,17 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
                 src={exportUrl || processedURL}
                 alt="Preview"
                 className="w-full object-contain"
+                {...previewDrag}
               />
             </div>
+            {image.mask && onRefineMask && (
+              <button
+                onClick={() => setIsMaskEditorOpen(true)}
+                className="mt-2 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors text-sm text-gray-700"
+              >
+                Refine Mask
+              </button>
+            )}
           </div>
         </div>
 
@@ -298,12 +303,23 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
           </button>
           <button
             onClick={handleSave}
-            className="px-4 py-2 text-white bg-blue-500 rounded hover:bg-blue-600"
+            disabled={isRendering || !preview}
+            className="px-4 py-2 text-white bg-blue-500 rounded hover:bg-blue-600 disabled:opacity-50"
           >
             Save Changes
           </button>
         </div>
       </div>
+
+      {image.mask && onRefineMask && (
+        <MaskEditor
+          original={image.file}
+          mask={image.mask}
+          isOpen={isMaskEditorOpen}
+          onClose={() => setIsMaskEditorOpen(false)}
+          onApply={onRefineMask}
+        />
+      )}
     </div>
   );
 }
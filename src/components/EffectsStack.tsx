@@ -0,0 +1,106 @@
+import React from "react";
+import {
+  effectOptions,
+  effectTargets,
+  createEffect,
+  type Effect,
+  type EffectTarget,
+  type EffectType
+} from "../../lib/compositor";
+
+interface EffectsStackProps {
+  effects: Effect[];
+  onChange: (effects: Effect[]) => void;
+}
+
+const effectLabels = Object.fromEntries(effectOptions.map(option => [option.id, option.label])) as Record<EffectType, string>;
+
+// Ordered list of effects, the first one is applied first
+export function EffectsStack({ effects, onChange }: EffectsStackProps) {
+  const update = (id: string, patch: Partial<Effect>) => {
+    onChange(effects.map(effect => effect.id === id ? { ...effect, ...patch } : effect));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= effects.length) return;
+    const reordered = [...effects];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-2">
+      {effects.map((effect, index) => (
+        <div key={effect.id} className="bg-white p-3 rounded-lg border border-gray-200 text-sm text-gray-600">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={effect.enabled}
+              onChange={(e) => update(effect.id, { enabled: e.target.checked })}
+              title={effect.enabled ? 'Turn off' : 'Turn on'}
+            />
+            <span className="font-medium text-gray-700">{effectLabels[effect.type]}</span>
+            <select
+              value={effect.target}
+              onChange={(e) => update(effect.id, { target: e.target.value as EffectTarget })}
+              className="ml-auto px-2 py-1 bg-white border border-gray-200 rounded"
+            >
+              {effectTargets.map(target => (
+                <option key={target.id} value={target.id}>{target.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={index === effects.length - 1}
+              className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => onChange(effects.filter(item => item.id !== effect.id))}
+              className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-red-600"
+              title="Remove"
+            >
+              ✕
+            </button>
+          </div>
+          <div className="flex items-center gap-3 mt-2">
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={effect.value}
+              disabled={!effect.enabled}
+              onChange={(e) => update(effect.id, { value: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="w-8 text-right">{effect.value}</span>
+          </div>
+        </div>
+      ))}
+
+      <select
+        value=""
+        onChange={(e) => {
+          if (e.target.value) onChange([...effects, createEffect(e.target.value as EffectType)]);
+        }}
+        className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-700"
+      >
+        <option value="">Add effect...</option>
+        {effectOptions.map(option => (
+          <option key={option.id} value={option.id}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import React from "react";
+import { errorHelp, type ProcessingErrorCode } from "../../lib/errors";
+
+interface ErrorBannerProps {
+  message: string;
+  // Known failures get a hint and a retry label that says what the retry changes
+  code?: ProcessingErrorCode;
+  onRetry?: () => void;
+  className?: string;
+}
+
+export function ErrorBanner({ message, code, onRetry, className = '' }: ErrorBannerProps) {
+  const help = code ? errorHelp[code] : undefined;
+  return (
+    <div className={`p-4 bg-red-50 text-red-600 rounded-lg whitespace-pre-line ${className}`}>
+      <p>{message}</p>
+      {help && <p className="mt-1 text-sm text-red-500">{help.hint}</p>}
+      {onRetry && (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="mt-3 px-3 py-1.5 bg-white border border-red-200 rounded-md hover:bg-red-100 transition-colors text-sm font-medium"
+        >
+          {help?.retryLabel ?? 'Retry'}
+        </button>
+      )}
+    </div>
+  );
+}
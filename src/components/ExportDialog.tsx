@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from "react";
+import {
+  exportFormats,
+  exportToFile,
+  isFormatSupported,
+  type ExportFormat,
+  type ExportSettings,
+  type ExportSizeMode
+} from "../../lib/export";
+import { exportWithPreset, type OutputPreset } from "../../lib/presets";
+import type { CompositeSpec } from "../../lib/compositor";
+import { MetadataControls } from "./MetadataControls";
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Object URL of the result to export
+  sourceUrl: string;
+  // Object URL of the plain cutout, presets place the subject themselves
+  cutoutUrl: string;
+  // Name of the original upload, fills {name} in the file name template
+  sourceName: string;
+  value: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  presets: OutputPreset[];
+  // Uploaded photo, its EXIF and XMP are carried over when the settings keep them
+  original?: Blob | null;
+  // Editor settings, presets render them around the plain cutout
+  edits?: CompositeSpec;
+}
+
+const sizeModes: { id: ExportSizeMode; label: string }[] = [
+  { id: 'original', label: 'Original size' },
+  { id: 'max', label: 'Limit longest side' },
+  { id: 'exact', label: 'Exact size' }
+];
+
+// Encoding a large image takes a moment, wait until the controls rest
+const ENCODE_DELAY = 300;
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function ExportDialog({
+  isOpen,
+  onClose,
+  sourceUrl,
+  cutoutUrl,
+  sourceName,
+  value,
+  onChange,
+  presets,
+  original,
+  edits
+}: ExportDialogProps) {
+  const [presetId, setPresetId] = useState('');
+  const [supported, setSupported] = useState<Partial<Record<ExportFormat, boolean>>>({});
+  const [file, setFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isEncoding, setIsEncoding] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    for (const format of exportFormats) {
+      isFormatSupported(format.id).then(result => setSupported(prev => ({ ...prev, [format.id]: result })));
+    }
+  }, [isOpen]);
+
+  // The file is encoded ahead of time, so its size is known before downloading
+  useEffect(() => {
+    if (!isOpen || !sourceUrl) return;
+    const preset = presets.find(item => item.id === presetId);
+    let cancelled = false;
+    setIsEncoding(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const source = await (await fetch(preset ? cutoutUrl : sourceUrl)).blob();
+        const result = preset
+          ? await exportWithPreset(source, sourceName, preset, original ?? undefined, value.metadata, edits)
+          : await exportToFile(source, sourceName, value, original ?? undefined);
+        if (cancelled) return;
+        setFile(result);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setFile(null);
+        setError(err instanceof Error ? err.message : 'Export failed');
+      } finally {
+        if (!cancelled) setIsEncoding(false);
+      }
+    }, ENCODE_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [isOpen, sourceUrl, cutoutUrl, sourceName, value, presets, presetId, original, edits]);
+
+  const handleDownload = () => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    link.click();
+    URL.revokeObjectURL(url);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const format = exportFormats.find(item => item.id === value.format);
+  const update = (patch: Partial<ExportSettings>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full max-h-[90vh] overflow-y-auto text-left">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">Download</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-4 text-sm text-gray-600">
+          <div>
+            <h3 className="font-medium text-gray-700 mb-2">Preset</h3>
+            <select
+              value={presetId}
+              onChange={(e) => setPresetId(e.target.value)}
+              className="w-full px-2 py-1 bg-white border border-gray-200 rounded"
+            >
+              <option value="">Custom settings</option>
+              {presets.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+            {presetId && (
+              <p className="text-xs text-gray-500 mt-1">The preset replaces the background and places the subject on its own canvas.</p>
+            )}
+          </div>
+
+          {!presetId && (
+            <div className="space-y-4">
+              <div>
+                <h3 className="font-medium text-gray-700 mb-2">Format</h3>
+                <div className="flex gap-2">
+                  {exportFormats.map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => update({ format: option.id })}
+                      disabled={supported[option.id] === false}
+                      title={supported[option.id] === false ? 'Not supported by this browser' : undefined}
+                      className={`px-3 py-1 rounded disabled:opacity-50 ${
+                        value.format === option.id ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {format?.lossy && (
+                <label className="flex items-center gap-3">
+                  <span className="w-24 shrink-0">Quality</span>
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="1"
+                    step="0.05"
+                    value={value.quality}
+                    onChange={(e) => update({ quality: Number(e.target.value) })}
+                    className="flex-1"
+                  />
+                  <span className="w-12 text-right">{Math.round(value.quality * 100)}%</span>
+                </label>
+              )}
+
+              {format && !format.alpha && (
+                <label className="flex items-center gap-3">
+                  <span className="w-24 shrink-0">Background</span>
+                  <input
+                    type="color"
+                    value={value.background}
+                    onChange={(e) => update({ background: e.target.value })}
+                    className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                  />
+                  <span className="text-xs text-gray-500">{format.label} has no transparency</span>
+                </label>
+              )}
+
+              <div>
+                <h3 className="font-medium text-gray-700 mb-2">Size</h3>
+                <select
+                  value={value.sizeMode}
+                  onChange={(e) => update({ sizeMode: e.target.value as ExportSizeMode })}
+                  className="w-full px-2 py-1 bg-white border border-gray-200 rounded"
+                >
+                  {sizeModes.map(mode => (
+                    <option key={mode.id} value={mode.id}>{mode.label}</option>
+                  ))}
+                </select>
+                {value.sizeMode === 'max' && (
+                  <label className="flex items-center gap-3 mt-2">
+                    <span className="w-24 shrink-0">Longest side</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={value.maxDimension}
+                      onChange={(e) => update({ maxDimension: Math.max(1, Number(e.target.value)) })}
+                      className="w-24 px-2 py-1 border border-gray-200 rounded"
+                    />
+                    <span>px</span>
+                  </label>
+                )}
+                {value.sizeMode === 'exact' && (
+                  <div className="flex items-center gap-2 mt-2">
+                    <input
+                      type="number"
+                      min="1"
+                      value={value.width}
+                      onChange={(e) => update({ width: Math.max(1, Number(e.target.value)) })}
+                      className="w-24 px-2 py-1 border border-gray-200 rounded"
+                    />
+                    <span>×</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={value.height}
+                      onChange={(e) => update({ height: Math.max(1, Number(e.target.value)) })}
+                      className="w-24 px-2 py-1 border border-gray-200 rounded"
+                    />
+                    <span>px</span>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h3 className="font-medium text-gray-700 mb-2">File name</h3>
+                <input
+                  type="text"
+                  value={value.fileName}
+                  onChange={(e) => update({ fileName: e.target.value })}
+                  className="w-full px-2 py-1 border border-gray-200 rounded"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Placeholders: {'{name}'}, {'{width}'}, {'{height}'}, {'{format}'}, {'{date}'}
+                </p>
+              </div>
+
+              <div>
+                <h3 className="font-medium text-gray-700 mb-2">Metadata</h3>
+                <MetadataControls value={value.metadata} onChange={(metadata) => update({ metadata })} />
+                {value.format === 'avif' && (
+                  <p className="text-xs text-gray-500 mt-1">AVIF files are saved without metadata.</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="bg-gray-50 rounded p-3">
+            {error ? (
+              <p className="text-red-600">{error}</p>
+            ) : file ? (
+              <p>
+                <span className="font-medium text-gray-700">{file.name}</span>
+                {' · '}{formatBytes(file.size)}{isEncoding && ' (updating...)'}
+              </p>
+            ) : (
+              <p>Preparing...</p>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-gray-700 bg-gray-100 rounded hover:bg-gray-200">
+            Cancel
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!file || isEncoding}
+            className="px-4 py-2 text-white bg-blue-500 rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import React from "react";
+import { predefinedGradients, type GradientSettings, type GradientStop } from "../../lib/compositor";
+
+interface GradientControlsProps {
+  value: GradientSettings;
+  onChange: (settings: GradientSettings) => void;
+}
+
+function toCss({ kind, angle, stops }: GradientSettings) {
+  const colors = [...stops]
+    .sort((a, b) => a.offset - b.offset)
+    .map(stop => `${stop.color} ${Math.round(stop.offset * 100)}%`)
+    .join(', ');
+  // CSS angles start at the top, the compositor's at the left
+  return kind === 'radial' ? `radial-gradient(circle, ${colors})` : `linear-gradient(${angle + 90}deg, ${colors})`;
+}
+
+export function GradientControls({ value, onChange }: GradientControlsProps) {
+  const updateStop = (index: number, patch: Partial<GradientStop>) => {
+    onChange({ ...value, stops: value.stops.map((stop, i) => i === index ? { ...stop, ...patch } : stop) });
+  };
+
+  return (
+    <div className="space-y-2 text-sm text-gray-600">
+      <div className="flex gap-2 flex-wrap">
+        {predefinedGradients.map((gradient, index) => (
+          <button
+            key={index}
+            onClick={() => onChange(gradient)}
+            className="w-8 h-8 rounded-full border border-gray-300"
+            style={{ background: toCss(gradient) }}
+          />
+        ))}
+      </div>
+      <label className="flex items-center gap-3">
+        <span className="w-24 shrink-0">Type</span>
+        <select
+          value={value.kind}
+          onChange={(e) => onChange({ ...value, kind: e.target.value as GradientSettings['kind'] })}
+          className="flex-1 px-2 py-1 bg-white border border-gray-200 rounded"
+        >
+          <option value="linear">Linear</option>
+          <option value="radial">Radial</option>
+        </select>
+      </label>
+      {value.kind === 'linear' && (
+        <label className="flex items-center gap-3">
+          <span className="w-24 shrink-0">Angle</span>
+          <input
+            type="range"
+            min="0"
+            max="359"
+            value={value.angle}
+            onChange={(e) => onChange({ ...value, angle: Number(e.target.value) })}
+            className="flex-1"
+          />
+          <span className="w-12 text-right">{value.angle}°</span>
+        </label>
+      )}
+      {value.stops.map((stop, index) => (
+        <div key={index} className="flex items-center gap-3">
+          <input
+            type="color"
+            value={stop.color}
+            onChange={(e) => updateStop(index, { color: e.target.value })}
+            className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+          />
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={Math.round(stop.offset * 100)}
+            onChange={(e) => updateStop(index, { offset: Number(e.target.value) / 100 })}
+            className="flex-1"
+          />
+          <span className="w-12 text-right">{Math.round(stop.offset * 100)}%</span>
+          <button
+            onClick={() => onChange({ ...value, stops: value.stops.filter((_, i) => i !== index) })}
+            disabled={value.stops.length <= 2}
+            className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-red-600 disabled:opacity-50"
+            title="Remove stop"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange({ ...value, stops: [...value.stops, { offset: 0.5, color: '#ffffff' }] })}
+        className="px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors text-gray-700"
+      >
+        Add stop
+      </button>
+    </div>
+  );
+}
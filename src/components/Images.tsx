@@ -1,22 +1,47 @@
 import React, { useState } from "react";
+import { saveAs } from "file-saver";
 import type { ImageFile } from "../App";
-import { EditModal } from "./EditModal";
+import { EditModal, type EditSettings } from "./EditModal";
+import { useObjectUrl } from "./useObjectUrl";
+import { maskToFile } from "../../lib/mask";
+import type { AlphaMask } from "../../lib/process";
+import type { MattingSettings } from "../../lib/matting";
+import { errorHelp } from "../../lib/errors";
+import { tagForDownload } from "../../lib/export";
+import type { MetadataSettings } from "../../lib/metadata";
 
 interface ImagesProps {
   images: ImageFile[];
   onDelete: (id: number) => void;
+  onRetry: (id: number) => void;
+  onEdited: (id: number, editedFile: File, settings: EditSettings, background?: File) => void;
+  onMaskRefined: (id: number, mask: AlphaMask) => void;
+  onMattingChanged: (id: number, matting: MattingSettings) => void;
+  // Metadata carried over to downloads, shared with the export dialog
+  metadata: MetadataSettings;
 }
 
-export function Images({ images, onDelete }: ImagesProps) {
+export function Images({ images, onDelete, onRetry, onEdited, onMaskRefined, onMattingChanged, metadata }: ImagesProps) {
   return (
     <div>
       <h2 className="hidden text-gray-800 text-xl font-semibold mb-4">Images: {images.length}</h2>
       <div className="gap-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
         {images.map((image) => {
           if(image.file.type.includes("video")) {
-            return <Video video={image} key={image.id} />;
+            return <Video video={image} onDelete={onDelete} onRetry={onRetry} key={image.id} />;
           } else {
-            return <ImageSpot image={image} onDelete={onDelete} key={image.id} />;
+            return (
+              <ImageSpot
+                image={image}
+                onDelete={onDelete}
+                onRetry={onRetry}
+                onEdited={onEdited}
+                onMaskRefined={onMaskRefined}
+                onMattingChanged={onMattingChanged}
+                metadata={metadata}
+                key={image.id}
+              />
+            );
           }
         })}
       </div>
@@ -24,17 +49,88 @@ export function Images({ images, onDelete }: ImagesProps) {
   );
 }
 
-function Video({ video }: { video: ImageFile }) {
-  const url = URL.createObjectURL(video.file);
+const statusLabels: Record<ImageFile["status"], string> = {
+  queued: "Queued",
+  processing: "Processing...",
+  done: "Done",
+  failed: "Failed"
+};
+
+interface VideoProps {
+  video: ImageFile;
+  onDelete: (id: number) => void;
+  onRetry: (id: number) => void;
+}
+
+function Video({ video, onDelete, onRetry }: VideoProps) {
+  const url = useObjectUrl(video.processedFile ?? video.file);
+  const isDone = video.status === "done" && video.processedFile;
   return (
-    <div className="bg-white rounded-lg shadow-md p-3">
-      <video
-        className="rounded-lg aspect-square object-cover"
-        loop
-        muted
-        autoPlay
-        src={url}
-      ></video>
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="relative p-3">
+        <video
+          className={`rounded-lg aspect-square object-cover ${isDone ? "" : "opacity-50"}`}
+          loop
+          muted
+          autoPlay
+          src={url}
+        ></video>
+        {!isDone && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 px-6">
+            <div className={`${video.status === "failed" ? "bg-red-600 bg-opacity-90" : "bg-black bg-opacity-50"} px-4 py-2 rounded-lg text-center`}>
+              <span className="text-white font-medium block">
+                {video.status === "processing"
+                  ? `Processing... ${Math.round((video.progress ?? 0) * 100)}%`
+                  : statusLabels[video.status]}
+              </span>
+              {video.status === "failed" && video.error && (
+                <span className="text-red-100 text-sm block">{video.error}</span>
+              )}
+              {video.status === "failed" && video.errorCode && (
+                <span className="text-red-100 text-xs block mt-1">{errorHelp[video.errorCode].hint}</span>
+              )}
+            </div>
+            {video.status === "processing" && (
+              <div className="w-full h-2 bg-white bg-opacity-60 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all duration-300"
+                  style={{ width: `${Math.round((video.progress ?? 0) * 100)}%` }}
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+      <div className="p-3 border-t border-gray-100">
+        <div className="flex justify-center gap-2">
+          <button
+            onClick={() => onDelete(video.id)}
+            className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+            title={isDone || video.status === "failed" ? "Delete" : "Cancel"}
+          >
+            <span className="text-sm text-gray-700">{isDone || video.status === "failed" ? "Delete" : "Cancel"}</span>
+          </button>
+          {video.status === "failed" && (
+            <button
+              onClick={() => onRetry(video.id)}
+              className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+              title="Retry"
+            >
+              <span className="text-sm text-gray-700">{video.errorCode ? errorHelp[video.errorCode].retryLabel : "Retry"}</span>
+            </button>
+          )}
+          {isDone && (
+            <a
+              href={url}
+              download={video.processedFile?.name}
+              className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+              title="Download"
+            >
+              <span className="text-sm text-gray-700">Download</span>
+            </a>
+          )}
+        </div>
+      </div>
     </div>
   );
 }
@@ -42,18 +138,36 @@ function Video({ video }: { video: ImageFile }) {
 interface ImageSpotProps {
   image: ImageFile;
   onDelete: (id: number) => void;
+  onRetry: (id: number) => void;
+  onEdited: (id: number, editedFile: File, settings: EditSettings, background?: File) => void;
+  onMaskRefined: (id: number, mask: AlphaMask) => void;
+  onMattingChanged: (id: number, matting: MattingSettings) => void;
+  metadata: MetadataSettings;
 }
 
-function ImageSpot({ image, onDelete }: ImageSpotProps) {
+function ImageSpot({ image, onDelete, onRetry, onEdited, onMaskRefined, onMattingChanged, metadata }: ImageSpotProps) {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
-  const [processedImageUrl, setProcessedImageUrl] = useState("");
 
-  const url = URL.createObjectURL(image.file);
-  const processedURL = image.processedFile ? URL.createObjectURL(image.processedFile) : "";
-  const isProcessing = !image.processedFile;
+  const url = useObjectUrl(image.file);
+  const processedURL = useObjectUrl(image.processedFile);
+  const processedImageUrl = useObjectUrl(image.editedFile);
+  const isProcessing = image.status !== "done" || !image.processedFile;
+
+  const handleEditSave = (result: Blob, settings: EditSettings, background?: File) => {
+    const [fileName] = image.file.name.split(".");
+    onEdited(image.id, new File([result], `${fileName}-edited.png`, { type: "image/png" }), settings, background);
+  };
+
+  const handleMaskDownload = async () => {
+    if (!image.mask) return;
+    const file = await maskToFile(image.mask, image.file.name);
+    saveAs(await tagForDownload(file, metadata, image.file));
+  };
 
-  const handleEditSave = (editedImageUrl: string) => {
-    setProcessedImageUrl(editedImageUrl);
+  const handleDownload = async () => {
+    const result = image.editedFile ?? image.processedFile;
+    if (!result) return;
+    saveAs(await tagForDownload(result, metadata, image.file));
   };
 
   const transparentBg = `url("data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAABAAAAAQBAMAAADt3eJSAAAAAXNSR0IArs4c6QAAAARnQU1BAACxjwv8YQUAAAAGUExURb+/v////5nD/3QAAAAJcEhZcwAADsMAAA7DAcdvqGQAAAAUSURBVBjTYwABQSCglEENMxgYGAAynwRB8BEAgQAAAABJRU5ErkJggg==")`;
@@ -69,10 +183,20 @@ function ImageSpot({ image, onDelete }: ImageSpotProps) {
               alt={`Processing image ${image.id}`}
             />
             <div className="absolute inset-0 flex items-center justify-center">
-              <div className="bg-black bg-opacity-50 px-4 py-2 rounded-lg">
-                <div className="inline-block animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-white mr-2"></div>
-                <span className="text-white font-medium">Processing...</span>
-              </div>
+              {image.status === "failed" ? (
+                <div className="bg-red-600 bg-opacity-90 px-4 py-2 rounded-lg text-center max-w-[80%]">
+                  <span className="text-white font-medium block">{statusLabels.failed}</span>
+                  {image.error && <span className="text-red-100 text-sm block">{image.error}</span>}
+                  {image.errorCode && <span className="text-red-100 text-xs block mt-1">{errorHelp[image.errorCode].hint}</span>}
+                </div>
+              ) : (
+                <div className="bg-black bg-opacity-50 px-4 py-2 rounded-lg">
+                  {image.status === "processing" && (
+                    <div className="inline-block animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-white mr-2"></div>
+                  )}
+                  <span className="text-white font-medium">{statusLabels[image.status]}</span>
+                </div>
+              )}
             </div>
           </div>
         ) : (
@@ -92,7 +216,24 @@ function ImageSpot({ image, onDelete }: ImageSpotProps) {
         )}
       </div>
 
-      {!isProcessing && (
+      {(image.status === "queued" || image.status === "processing") && (
+        <div className="p-3 border-t border-gray-100">
+          <div className="flex justify-center gap-2">
+            <button
+              onClick={() => onDelete(image.id)}
+              className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+              title="Cancel"
+            >
+              <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+              <span className="text-sm text-gray-700">Cancel</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {image.status === "failed" && (
         <div className="p-3 border-t border-gray-100">
           <div className="flex justify-center gap-2">
             <button
@@ -106,18 +247,46 @@ function ImageSpot({ image, onDelete }: ImageSpotProps) {
               <span className="text-sm text-gray-700">Delete</span>
             </button>
             <button
-              onClick={() => setIsEditModalOpen(true)}
+              onClick={() => onRetry(image.id)}
               className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
-              title="Edit"
+              title="Retry"
             >
               <svg className="w-4 h-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
               </svg>
-              <span className="text-sm text-gray-700">Edit</span>
+              <span className="text-sm text-gray-700">{image.errorCode ? errorHelp[image.errorCode].retryLabel : "Retry"}</span>
             </button>
-            <a
-              href={processedImageUrl || processedURL}
-              download={`processed-${image.id}.png`}
+          </div>
+        </div>
+      )}
+
+      {!isProcessing && (
+        <div className="p-3 border-t border-gray-100">
+          <div className="flex justify-center gap-2">
+            <button
+              onClick={() => onDelete(image.id)}
+              className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+              title="Delete"
+            >
+              <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+              <span className="text-sm text-gray-700">Delete</span>
+            </button>
+            {image.mask && (
+              <button
+                onClick={() => setIsEditModalOpen(true)}
+                className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+                title="Edit"
+              >
+                <svg className="w-4 h-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                </svg>
+                <span className="text-sm text-gray-700">Edit</span>
+              </button>
+            )}
+            <button
+              onClick={handleDownload}
               className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
               title="Download"
             >
@@ -125,7 +294,16 @@ function ImageSpot({ image, onDelete }: ImageSpotProps) {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
               </svg>
               <span className="text-sm text-gray-700">Download</span>
-            </a>
+            </button>
+            {image.mask && (
+              <button
+                onClick={handleMaskDownload}
+                className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+                title="Download mask only"
+              >
+                <span className="text-sm text-gray-700">Mask</span>
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -135,6 +313,8 @@ function ImageSpot({ image, onDelete }: ImageSpotProps) {
         isOpen={isEditModalOpen}
         onClose={() => setIsEditModalOpen(false)}
         onSave={handleEditSave}
+        onRefineMask={(mask) => onMaskRefined(image.id, mask)}
+        onMattingChange={(matting) => onMattingChanged(image.id, matting)}
       />
     </div>
   );
@@ -0,0 +1,132 @@
+import React, { useRef } from "react";
+import {
+  backgroundFits,
+  IDENTITY_TRANSFORM,
+  isIdentityTransform,
+  type BackgroundFit,
+  type LayerTransform,
+  type LayoutSettings
+} from "../../lib/compositor";
+
+export type LayoutLayer = "background" | "subject";
+
+interface LayoutControlsProps {
+  value: LayoutSettings;
+  onChange: (layout: LayoutSettings) => void;
+  // The layer the sliders and dragging the preview move
+  layer: LayoutLayer;
+  onLayerChange: (layer: LayoutLayer) => void;
+  // Only image backgrounds can be placed, otherwise the subject is the only layer
+  hasBackgroundImage: boolean;
+}
+
+const layerLabels: Record<LayoutLayer, string> = { background: 'Background', subject: 'Subject' };
+
+// Size of the picture inside an element, an <img> with object-contain can be letterboxed
+function contentSize(element: HTMLElement) {
+  const rect = element.getBoundingClientRect();
+  if (!(element instanceof HTMLImageElement) || !element.naturalWidth) return rect;
+  const ratio = Math.min(rect.width / element.naturalWidth, rect.height / element.naturalHeight);
+  return { width: element.naturalWidth * ratio, height: element.naturalHeight * ratio };
+}
+
+// Pointer handlers for the preview, dragging moves the layer by the same distance on the canvas
+export function useLayoutDrag(value: LayoutSettings, onChange: (layout: LayoutSettings) => void, layer: LayoutLayer) {
+  const start = useRef<{ x: number; y: number; transform: LayerTransform } | null>(null);
+
+  const end = () => {
+    start.current = null;
+  };
+
+  return {
+    draggable: false,
+    style: { cursor: 'move', touchAction: 'none' } as React.CSSProperties,
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      start.current = { x: e.clientX, y: e.clientY, transform: value[layer] };
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLElement>) => {
+      if (!start.current) return;
+      const { width, height } = contentSize(e.currentTarget);
+      if (!width || !height) return;
+      const { x, y, transform } = start.current;
+      onChange({
+        ...value,
+        [layer]: { ...transform, x: transform.x + (e.clientX - x) / width, y: transform.y + (e.clientY - y) / height }
+      });
+    },
+    onPointerUp: end,
+    onPointerCancel: end
+  };
+}
+
+export function LayoutControls({ value, onChange, layer, onLayerChange, hasBackgroundImage }: LayoutControlsProps) {
+  const active = hasBackgroundImage ? layer : 'subject';
+  const transform = value[active];
+  const update = (patch: Partial<LayerTransform>) => onChange({ ...value, [active]: { ...transform, ...patch } });
+
+  return (
+    <div className="space-y-2 text-sm text-gray-600">
+      <div className="flex items-center gap-2">
+        {hasBackgroundImage && (Object.keys(layerLabels) as LayoutLayer[]).map(option => (
+          <button
+            key={option}
+            onClick={() => onLayerChange(option)}
+            className={`px-3 py-1 rounded ${
+              active === option ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {layerLabels[option]}
+          </button>
+        ))}
+        <button
+          onClick={() => update(IDENTITY_TRANSFORM)}
+          disabled={isIdentityTransform(transform)}
+          className="ml-auto text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+        >
+          Reset
+        </button>
+      </div>
+      {active === 'background' && (
+        <label className="flex items-center gap-3">
+          <span className="w-24 shrink-0">Fit</span>
+          <select
+            value={value.fit}
+            onChange={(e) => onChange({ ...value, fit: e.target.value as BackgroundFit })}
+            className="flex-1 px-2 py-1 bg-white border border-gray-200 rounded"
+          >
+            {backgroundFits.map(fit => (
+              <option key={fit.id} value={fit.id}>{fit.label}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label className="flex items-center gap-3">
+        <span className="w-24 shrink-0">Zoom</span>
+        <input
+          type="range"
+          min="10"
+          max="400"
+          step="5"
+          value={Math.round(transform.scale * 100)}
+          onChange={(e) => update({ scale: Number(e.target.value) / 100 })}
+          className="flex-1"
+        />
+        <span className="w-12 text-right">{Math.round(transform.scale * 100)}%</span>
+      </label>
+      <label className="flex items-center gap-3">
+        <span className="w-24 shrink-0">Rotation</span>
+        <input
+          type="range"
+          min="-180"
+          max="180"
+          value={transform.rotation}
+          onChange={(e) => update({ rotation: Number(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-12 text-right">{transform.rotation}°</span>
+      </label>
+      <p className="text-xs text-gray-500">Drag the preview to move the {layerLabels[active].toLowerCase()}.</p>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { AlphaMask } from "../../lib/process";
+import { applyBrushStroke, type BrushMode, type DirtyRect } from "../../lib/mask";
+import { decodeImage } from "../../lib/metadata";
+
+interface MaskEditorProps {
+  original: File;
+  mask: AlphaMask;
+  isOpen: boolean;
+  onClose: () => void;
+  onApply: (mask: AlphaMask) => void;
+}
+
+type Tool = BrushMode | 'pan';
+
+const toolOptions: { id: Tool; label: string }[] = [
+  { id: 'restore', label: 'Restore' },
+  { id: 'erase', label: 'Erase' },
+  { id: 'pan', label: 'Pan' }
+];
+
+// Every snapshot is a full copy of the mask, keep the history short for large images
+const MAX_HISTORY = 10;
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 8;
+
+export function MaskEditor({ original, mask, isOpen, onClose, onApply }: MaskEditorProps) {
+  const [tool, setTool] = useState<Tool>('restore');
+  const [brushSize, setBrushSize] = useState(30);
+  const [hardness, setHardness] = useState(50);
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [undoStack, setUndoStack] = useState<Uint8Array[]>([]);
+  const [redoStack, setRedoStack] = useState<Uint8Array[]>([]);
+  const [originalUrl, setOriginalUrl] = useState('');
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const workingMaskRef = useRef<AlphaMask | null>(null);
+  const originalPixelsRef = useRef<ImageData | null>(null);
+  const outputRef = useRef<ImageData | null>(null);
+  const pointerRef = useRef<{ x: number; y: number; clientX: number; clientY: number } | null>(null);
+
+  const render = useCallback((rect?: DirtyRect) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const working = workingMaskRef.current;
+    const source = originalPixelsRef.current;
+    const output = outputRef.current;
+    if (!ctx || !working || !source || !output) return;
+
+    const { x, y, width, height } = rect ?? { x: 0, y: 0, width: working.width, height: working.height };
+    for (let row = y; row < y + height; row++) {
+      for (let col = x; col < x + width; col++) {
+        const i = row * working.width + col;
+        output.data[4 * i] = source.data[4 * i];
+        output.data[4 * i + 1] = source.data[4 * i + 1];
+        output.data[4 * i + 2] = source.data[4 * i + 2];
+        output.data[4 * i + 3] = working.data[i];
+      }
+    }
+    ctx.putImageData(output, 0, 0, x, y, width, height);
+  }, []);
+
+  // Load the original pixels at mask resolution and start from a copy of the stored matte
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const url = URL.createObjectURL(original);
+    setOriginalUrl(url);
+
+    (async () => {
+      const bitmap = await decodeImage(original);
+      const scratch = new OffscreenCanvas(mask.width, mask.height);
+      const scratchCtx = scratch.getContext('2d');
+      if (!scratchCtx || cancelled) return;
+      scratchCtx.drawImage(bitmap, 0, 0, mask.width, mask.height);
+      bitmap.close();
+
+      originalPixelsRef.current = scratchCtx.getImageData(0, 0, mask.width, mask.height);
+      outputRef.current = new ImageData(mask.width, mask.height);
+      workingMaskRef.current = { ...mask, data: new Uint8Array(mask.data) };
+      setUndoStack([]);
+      setRedoStack([]);
+      setZoom(1);
+      setPan({ x: 0, y: 0 });
+      render();
+    })().catch(error => console.error("Failed to load image for mask editing:", error));
+
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
+  }, [isOpen, original, mask, render]);
+
+  const restoreSnapshot = useCallback((snapshot: Uint8Array) => {
+    const working = workingMaskRef.current;
+    if (!working) return;
+    working.data.set(snapshot);
+    render();
+  }, [render]);
+
+  const handleUndo = useCallback(() => {
+    const working = workingMaskRef.current;
+    const snapshot = undoStack[undoStack.length - 1];
+    if (!working || !snapshot) return;
+    setRedoStack(prev => [...prev, new Uint8Array(working.data)]);
+    setUndoStack(prev => prev.slice(0, -1));
+    restoreSnapshot(snapshot);
+  }, [undoStack, restoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    const working = workingMaskRef.current;
+    const snapshot = redoStack[redoStack.length - 1];
+    if (!working || !snapshot) return;
+    setUndoStack(prev => [...prev, new Uint8Array(working.data)]);
+    setRedoStack(prev => prev.slice(0, -1));
+    restoreSnapshot(snapshot);
+  }, [redoStack, restoreSnapshot]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isOpen, handleUndo, handleRedo]);
+
+  const toMaskPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * mask.width,
+      y: ((e.clientY - rect.top) / rect.height) * mask.height,
+      clientX: e.clientX,
+      clientY: e.clientY
+    };
+  };
+
+  const paint = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const working = workingMaskRef.current;
+    if (!working || tool === 'pan') return;
+    const dirty = applyBrushStroke(working, from, to, {
+      mode: tool,
+      radius: brushSize / 2,
+      hardness: hardness / 100
+    });
+    render(dirty);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const working = workingMaskRef.current;
+    if (!working) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toMaskPoint(e);
+    pointerRef.current = point;
+
+    // Middle button pans whatever tool is selected
+    if (tool === 'pan' || e.button === 1) return;
+    setUndoStack(prev => [...prev, new Uint8Array(working.data)].slice(-MAX_HISTORY));
+    setRedoStack([]);
+    paint(point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const last = pointerRef.current;
+    if (!last) return;
+    const point = toMaskPoint(e);
+
+    if (tool === 'pan' || (e.buttons & 4) !== 0) {
+      setPan(prev => ({ x: prev.x + e.clientX - last.clientX, y: prev.y + e.clientY - last.clientY }));
+    } else {
+      paint(last, point);
+    }
+    pointerRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    pointerRef.current = null;
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    setZoom(prev => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev * (e.deltaY < 0 ? 1.1 : 1 / 1.1))));
+  };
+
+  const handleApply = () => {
+    const working = workingMaskRef.current;
+    if (working) {
+      onApply({ ...working, data: new Uint8Array(working.data) });
+    }
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">Refine Mask</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <div className="flex gap-2">
+            {toolOptions.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setTool(option.id)}
+                className={`px-3 py-1 rounded ${
+                  tool === option.id
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Size
+            <input
+              type="range"
+              min="2"
+              max="200"
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+            />
+            <span className="w-8">{brushSize}</span>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Hardness
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={hardness}
+              onChange={(e) => setHardness(Number(e.target.value))}
+            />
+            <span className="w-8">{hardness}</span>
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={handleUndo}
+              disabled={undoStack.length === 0}
+              className="px-3 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+              title="Undo (Ctrl+Z)"
+            >
+              Undo
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={redoStack.length === 0}
+              className="px-3 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              Redo
+            </button>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <button
+              onClick={() => setZoom(prev => Math.max(MIN_ZOOM, prev / 1.25))}
+              className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200"
+            >
+              −
+            </button>
+            <span className="w-12 text-center">{Math.round(zoom * 100)}%</span>
+            <button
+              onClick={() => setZoom(prev => Math.min(MAX_ZOOM, prev * 1.25))}
+              className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200"
+            >
+              +
+            </button>
+            <button
+              onClick={() => { setZoom(1); setPan({ x: 0, y: 0 }); }}
+              className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200"
+            >
+              Fit
+            </button>
+          </div>
+        </div>
+
+        <div className="border rounded-lg overflow-hidden bg-checkered" onWheel={handleWheel}>
+          <div
+            className="relative origin-center"
+            style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}
+          >
+            {/* Faint original underneath so erased areas can be found and restored */}
+            <img src={originalUrl} alt="" className="absolute inset-0 w-full h-full opacity-25 pointer-events-none" />
+            <canvas
+              ref={canvasRef}
+              width={mask.width}
+              height={mask.height}
+              className={`relative w-full h-auto touch-none ${tool === 'pan' ? 'cursor-grab' : 'cursor-crosshair'}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            className="px-4 py-2 text-white bg-blue-500 rounded hover:bg-blue-600"
+          >
+            Apply Mask
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
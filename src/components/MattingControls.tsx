@@ -0,0 +1,71 @@
+import React, { useState, useEffect, useRef } from "react";
+import { DEFAULT_MATTING, isDefaultMatting, type MattingSettings } from "../../lib/matting";
+
+interface MattingControlsProps {
+  value: MattingSettings;
+  onChange: (settings: MattingSettings) => void;
+}
+
+const sliders: { key: keyof MattingSettings; label: string; min: number; max: number; step: number }[] = [
+  { key: 'low', label: 'Clip shadows', min: 0, max: 254, step: 1 },
+  { key: 'high', label: 'Clip highlights', min: 1, max: 255, step: 1 },
+  { key: 'gamma', label: 'Gamma', min: 0.2, max: 3, step: 0.05 },
+  { key: 'shift', label: 'Shrink / grow', min: -20, max: 20, step: 1 },
+  { key: 'feather', label: 'Feather', min: 0, max: 20, step: 1 },
+  { key: 'minIslandArea', label: 'Remove specks', min: 0, max: 5000, step: 50 },
+  { key: 'maxHoleArea', label: 'Fill holes', min: 0, max: 5000, step: 50 },
+  { key: 'guidedRadius', label: 'Snap to details', min: 0, max: 16, step: 1 },
+  { key: 'decontaminate', label: 'Remove color spill', min: 0, max: 1, step: 0.05 }
+];
+
+// Recomposing the cutout is expensive on large images, wait until the slider rests
+const COMMIT_DELAY = 300;
+
+export function MattingControls({ value, onChange }: MattingControlsProps) {
+  const [draft, setDraft] = useState(value);
+  // The parent usually passes a new callback every render, that must not restart the timer
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  useEffect(() => {
+    if (draft === value) return;
+    const timeout = setTimeout(() => onChangeRef.current(draft), COMMIT_DELAY);
+    return () => clearTimeout(timeout);
+  }, [draft, value]);
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-medium text-gray-700">Edges</h3>
+        <button
+          onClick={() => setDraft(DEFAULT_MATTING)}
+          disabled={isDefaultMatting(draft)}
+          className="text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+        >
+          Reset
+        </button>
+      </div>
+      <div className="space-y-2">
+        {sliders.map(slider => (
+          <label key={slider.key} className="flex items-center gap-3 text-sm text-gray-600">
+            <span className="w-36 shrink-0">{slider.label}</span>
+            <input
+              type="range"
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              value={draft[slider.key]}
+              onChange={(e) => setDraft(prev => ({ ...prev, [slider.key]: Number(e.target.value) }))}
+              className="w-full"
+            />
+            <span className="w-12 text-right">{draft[slider.key]}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
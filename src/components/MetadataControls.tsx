@@ -0,0 +1,39 @@
+import React from "react";
+import type { MetadataSettings } from "../../lib/metadata";
+
+interface MetadataControlsProps {
+  value: MetadataSettings;
+  onChange: (settings: MetadataSettings) => void;
+}
+
+export function MetadataControls({ value, onChange }: MetadataControlsProps) {
+  return (
+    <div className="space-y-1">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.keepExif}
+          onChange={(e) => onChange({ ...value, keepExif: e.target.checked })}
+        />
+        Keep EXIF (camera, date)
+      </label>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.keepXmp}
+          onChange={(e) => onChange({ ...value, keepXmp: e.target.checked })}
+        />
+        Keep XMP
+      </label>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.keepGps}
+          disabled={!value.keepExif && !value.keepXmp}
+          onChange={(e) => onChange({ ...value, keepGps: e.target.checked })}
+        />
+        Include GPS location
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import React from "react";
+import { MODELS } from "../../lib/models";
+
+interface ModelSelectorProps {
+  value: string;
+  onChange: (modelKey: string) => void;
+  highResolution: boolean;
+  onHighResolutionChange: (enabled: boolean) => void;
+}
+
+export function ModelSelector({ value, onChange, highResolution, onHighResolutionChange }: ModelSelectorProps) {
+  const hasWebGPU = "gpu" in navigator;
+  const selected = MODELS.find(model => model.key === value);
+
+  return (
+    <div className="flex flex-col items-center gap-1 text-sm text-gray-600">
+      <label className="flex items-center gap-2">
+        Model
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-gray-700"
+        >
+          {MODELS.map(model => {
+            const needsWebGPU = model.devices.every(device => device === "webgpu");
+            return (
+              <option key={model.key} value={model.key} disabled={needsWebGPU && !hasWebGPU}>
+                {model.label}{needsWebGPU ? " (WebGPU)" : ""}
+              </option>
+            );
+          })}
+        </select>
+      </label>
+      <label
+        className="flex items-center gap-2 cursor-pointer"
+        title="Refines the edges of large photos tile by tile, slower but sharper"
+      >
+        <input
+          type="checkbox"
+          checked={highResolution}
+          onChange={(e) => onHighResolutionChange(e.target.checked)}
+        />
+        High resolution edges
+      </label>
+      {selected && (
+        <span className="text-xs text-gray-500">
+          {selected.description} · License: {selected.license}
+        </span>
+      )}
+    </div>
+  );
+}
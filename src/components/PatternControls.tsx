@@ -0,0 +1,69 @@
+import React from "react";
+import { patternOptions, type PatternSettings } from "../../lib/compositor";
+
+interface PatternControlsProps {
+  value: PatternSettings;
+  onChange: (settings: PatternSettings) => void;
+}
+
+export function PatternControls({ value, onChange }: PatternControlsProps) {
+  return (
+    <div className="space-y-2 text-sm text-gray-600">
+      <div className="flex gap-2 flex-wrap">
+        {patternOptions.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onChange({ ...value, pattern: option.id })}
+            className={`px-3 py-1 rounded ${
+              value.pattern === option.id ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-3">
+        <span className="w-24 shrink-0">Colors</span>
+        <input
+          type="color"
+          value={value.color}
+          onChange={(e) => onChange({ ...value, color: e.target.value })}
+          className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+          title="Pattern"
+        />
+        <input
+          type="color"
+          value={value.background}
+          onChange={(e) => onChange({ ...value, background: e.target.value })}
+          className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+          title="Background"
+        />
+      </div>
+      <label className="flex items-center gap-3">
+        <span className="w-24 shrink-0">Spacing</span>
+        <input
+          type="range"
+          min="1"
+          max="25"
+          step="0.5"
+          value={value.spacing}
+          onChange={(e) => onChange({ ...value, spacing: Number(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-8 text-right">{value.spacing}</span>
+      </label>
+      <label className="flex items-center gap-3">
+        <span className="w-24 shrink-0">Thickness</span>
+        <input
+          type="range"
+          min="5"
+          max="90"
+          value={value.thickness}
+          onChange={(e) => onChange({ ...value, thickness: Number(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-8 text-right">{value.thickness}</span>
+      </label>
+    </div>
+  );
+}
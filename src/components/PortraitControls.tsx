@@ -0,0 +1,38 @@
+import React from "react";
+import type { PortraitSettings } from "../../lib/compositor";
+
+interface PortraitControlsProps {
+  value: PortraitSettings;
+  onChange: (settings: PortraitSettings) => void;
+}
+
+export function PortraitControls({ value, onChange }: PortraitControlsProps) {
+  return (
+    <div className="space-y-2 text-sm text-gray-600">
+      <label className="flex items-center gap-3">
+        <span className="w-24 shrink-0">Blur</span>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={value.blur}
+          onChange={(e) => onChange({ ...value, blur: Number(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-8 text-right">{value.blur}</span>
+      </label>
+      <label className="flex items-center gap-3" title="Keep the background sharper close to the subject">
+        <span className="w-24 shrink-0">Depth falloff</span>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={value.falloff}
+          onChange={(e) => onChange({ ...value, falloff: Number(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-8 text-right">{value.falloff}</span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import React, { useState } from "react";
+import { saveAs } from "file-saver";
+import { exportFormats, type ExportFormat } from "../../lib/export";
+import {
+  createPresetId,
+  isBuiltInPreset,
+  MAX_PRESET_PADDING,
+  MAX_PRESET_SIZE,
+  parsePresets,
+  serializePresets,
+  type OutputPreset,
+  type PresetAlignment
+} from "../../lib/presets";
+
+interface PresetManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  presets: OutputPreset[];
+  onSave: (presets: OutputPreset[]) => void;
+  onDelete: (id: string) => void;
+}
+
+const alignments: { id: PresetAlignment; label: string }[] = [
+  { id: 'center', label: 'Centered' },
+  { id: 'bottom', label: 'On the bottom' },
+  { id: 'top', label: 'At the top' }
+];
+
+export function PresetManager({ isOpen, onClose, presets, onSave, onDelete }: PresetManagerProps) {
+  const [draft, setDraft] = useState<OutputPreset>(presets[0]);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const isCustom = !isBuiltInPreset(draft.id) && presets.some(preset => preset.id === draft.id);
+  const customPresets = presets.filter(preset => !isBuiltInPreset(preset.id));
+  const update = (patch: Partial<OutputPreset>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onSave(parsePresets(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import presets');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto text-left">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">Output Presets</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            ✕
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 text-sm text-gray-600">
+          <div className="space-y-1">
+            {presets.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => setDraft(preset)}
+                className={`block w-full text-left px-3 py-2 rounded ${
+                  draft.id === preset.id ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {preset.name}
+                {isBuiltInPreset(preset.id) && <span className="ml-1 text-xs opacity-75">(built-in)</span>}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="block">
+              <span className="block mb-1">Name</span>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => update({ name: e.target.value })}
+                className="w-full px-2 py-1 border border-gray-200 rounded"
+              />
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min="1"
+                max={MAX_PRESET_SIZE}
+                value={draft.width}
+                onChange={(e) => update({ width: Math.min(MAX_PRESET_SIZE, Math.max(1, Number(e.target.value))) })}
+                className="w-24 px-2 py-1 border border-gray-200 rounded"
+              />
+              <span>×</span>
+              <input
+                type="number"
+                min="1"
+                max={MAX_PRESET_SIZE}
+                value={draft.height}
+                onChange={(e) => update({ height: Math.min(MAX_PRESET_SIZE, Math.max(1, Number(e.target.value))) })}
+                className="w-24 px-2 py-1 border border-gray-200 rounded"
+              />
+              <span>px</span>
+            </div>
+            <label className="flex items-center gap-3">
+              <span className="w-20 shrink-0">Padding</span>
+              <input
+                type="range"
+                min="0"
+                max={MAX_PRESET_PADDING}
+                value={draft.padding}
+                onChange={(e) => update({ padding: Number(e.target.value) })}
+                className="flex-1"
+              />
+              <span className="w-10 text-right">{draft.padding}%</span>
+            </label>
+            <label className="flex items-center gap-3">
+              <span className="w-20 shrink-0">Subject</span>
+              <select
+                value={draft.alignment}
+                onChange={(e) => update({ alignment: e.target.value as PresetAlignment })}
+                className="flex-1 px-2 py-1 bg-white border border-gray-200 rounded"
+              >
+                {alignments.map(alignment => (
+                  <option key={alignment.id} value={alignment.id}>{alignment.label}</option>
+                ))}
+              </select>
+            </label>
+            <div className="flex items-center gap-3">
+              <span className="w-20 shrink-0">Background</span>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={draft.background.type === 'transparent'}
+                  onChange={(e) => update({
+                    background: e.target.checked ? { type: 'transparent' } : { type: 'color', color: '#ffffff' }
+                  })}
+                />
+                Transparent
+              </label>
+              {draft.background.type === 'color' && (
+                <input
+                  type="color"
+                  value={draft.background.color}
+                  onChange={(e) => update({ background: { type: 'color', color: e.target.value } })}
+                  className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                />
+              )}
+            </div>
+            <label className="flex items-center gap-3">
+              <span className="w-20 shrink-0">Format</span>
+              <select
+                value={draft.format}
+                onChange={(e) => update({ format: e.target.value as ExportFormat })}
+                className="flex-1 px-2 py-1 bg-white border border-gray-200 rounded"
+              >
+                {exportFormats.map(format => (
+                  <option key={format.id} value={format.id}>{format.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-3">
+              <span className="w-20 shrink-0">Quality</span>
+              <input
+                type="range"
+                min="0.1"
+                max="1"
+                step="0.05"
+                value={draft.quality}
+                onChange={(e) => update({ quality: Number(e.target.value) })}
+                className="flex-1"
+              />
+              <span className="w-10 text-right">{Math.round(draft.quality * 100)}%</span>
+            </label>
+
+            <div className="flex flex-wrap gap-2 pt-2">
+              <button
+                onClick={() => {
+                  const preset = { ...draft, id: createPresetId() };
+                  onSave([preset]);
+                  setDraft(preset);
+                }}
+                className="px-3 py-1.5 text-white bg-blue-500 rounded hover:bg-blue-600"
+              >
+                Save as new
+              </button>
+              {isCustom && (
+                <>
+                  <button
+                    onClick={() => onSave([draft])}
+                    className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                  >
+                    Update
+                  </button>
+                  <button
+                    onClick={() => {
+                      onDelete(draft.id);
+                      setDraft(presets[0]);
+                    }}
+                    className="px-3 py-1.5 bg-gray-100 text-red-600 rounded hover:bg-gray-200"
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+        <div className="mt-6 flex flex-wrap justify-between gap-2">
+          <div className="flex gap-2">
+            <label className="px-4 py-2 text-gray-700 bg-gray-100 rounded hover:bg-gray-200 cursor-pointer">
+              Import JSON
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => {
+                  handleImport(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+            </label>
+            <button
+              onClick={() => saveAs(
+                new Blob([serializePresets(customPresets)], { type: 'application/json' }),
+                'cutoutify-presets.json'
+              )}
+              disabled={customPresets.length === 0}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50"
+            >
+              Export JSON
+            </button>
+          </div>
+          <button onClick={onClose} className="px-4 py-2 text-white bg-blue-500 rounded hover:bg-blue-600">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
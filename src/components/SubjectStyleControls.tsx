@@ -0,0 +1,97 @@
+import React from "react";
+import type { SubjectStyle } from "../../lib/compositor";
+
+interface SubjectStyleControlsProps {
+  value: SubjectStyle;
+  onChange: (style: SubjectStyle) => void;
+}
+
+type Part = keyof SubjectStyle;
+
+const parts: { key: Part; label: string }[] = [
+  { key: 'shadow', label: 'Drop shadow' },
+  { key: 'contactShadow', label: 'Floor shadow' },
+  { key: 'outline', label: 'Outline' },
+  { key: 'glow', label: 'Glow' }
+];
+
+// Numeric settings per part, lengths are percentages of the longer side of the image
+const sliders: { [P in Part]: { key: string; label: string; min: number; max: number; step: number }[] } = {
+  shadow: [
+    { key: 'offsetX', label: 'Offset X', min: -20, max: 20, step: 0.5 },
+    { key: 'offsetY', label: 'Offset Y', min: -20, max: 20, step: 0.5 },
+    { key: 'blur', label: 'Blur', min: 0, max: 10, step: 0.25 },
+    { key: 'opacity', label: 'Opacity', min: 0, max: 1, step: 0.05 }
+  ],
+  contactShadow: [
+    { key: 'height', label: 'Height', min: 1, max: 30, step: 1 },
+    { key: 'blur', label: 'Blur', min: 0, max: 10, step: 0.25 },
+    { key: 'opacity', label: 'Opacity', min: 0, max: 1, step: 0.05 }
+  ],
+  outline: [
+    { key: 'width', label: 'Width', min: 0, max: 5, step: 0.1 }
+  ],
+  glow: [
+    { key: 'blur', label: 'Size', min: 0, max: 10, step: 0.25 },
+    { key: 'opacity', label: 'Opacity', min: 0, max: 1, step: 0.05 }
+  ]
+};
+
+export function SubjectStyleControls({ value, onChange }: SubjectStyleControlsProps) {
+  const update = <P extends Part>(part: P, patch: Partial<SubjectStyle[P]>) => {
+    onChange({ ...value, [part]: { ...value[part], ...patch } });
+  };
+
+  return (
+    <div className="space-y-2">
+      {parts.map(({ key, label }) => {
+        const settings = value[key] as SubjectStyle[Part] & Record<string, unknown>;
+        return (
+          <div key={key} className="bg-white p-3 rounded-lg border border-gray-200 text-sm text-gray-600">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => update(key, { enabled: e.target.checked })}
+              />
+              <span className="font-medium text-gray-700">{label}</span>
+              {key === 'outline' && (
+                <select
+                  value={value.outline.position}
+                  onChange={(e) => update('outline', { position: e.target.value as SubjectStyle['outline']['position'] })}
+                  disabled={!settings.enabled}
+                  className="ml-auto px-2 py-1 bg-white border border-gray-200 rounded"
+                >
+                  <option value="outside">Outside</option>
+                  <option value="inside">Inside</option>
+                </select>
+              )}
+              <input
+                type="color"
+                value={settings.color}
+                onChange={(e) => update(key, { color: e.target.value })}
+                disabled={!settings.enabled}
+                className={`w-8 h-8 border border-gray-300 rounded cursor-pointer ${key === 'outline' ? '' : 'ml-auto'}`}
+              />
+            </div>
+            {settings.enabled && sliders[key].map(slider => (
+              <label key={slider.key} className="flex items-center gap-3 mt-2">
+                <span className="w-24 shrink-0">{slider.label}</span>
+                <input
+                  type="range"
+                  min={slider.min}
+                  max={slider.max}
+                  step={slider.step}
+                  value={settings[slider.key] as number}
+                  onChange={(e) => update(key, { [slider.key]: Number(e.target.value) })}
+                  className="flex-1"
+                />
+                <span className="w-12 text-right">{settings[slider.key] as number}</span>
+              </label>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+
+// Object URL for a blob, revoked once the blob changes or the component unmounts. The URL is
+// created in the effect rather than during render, so StrictMode's extra cleanup cannot revoke
+// a URL that is still shown.
+export function useObjectUrl(blob: Blob | null | undefined) {
+  const [url, setUrl] = useState("");
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl("");
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+}
@@ -4,6 +4,16 @@ import App from "./App.tsx";
 import "./index.css";
 
 console.log("main.jsx");
+
+// Cache the app shell so it keeps working offline once the models are downloaded
+if ("serviceWorker" in navigator && import.meta.env.PROD) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+}
+
 createRoot(document.getElementById("root")).render(
   <StrictMode>
     <App />
@@ -20,13 +20,16 @@ export default defineConfig({
       output: {
         manualChunks: {
           // Split vendor chunks for better caching
-          vendor: ['react', 'react-dom'],
-          transformers: ['@huggingface/transformers']
+          // transformers.js is only imported by the segmentation worker, which gets its own bundle
+          vendor: ['react', 'react-dom']
         }
       }
     },
     chunkSizeWarningLimit: 2000, // Increase chunk size limit for ML models
   },
+  worker: {
+    format: 'es' // The segmentation worker imports transformers.js as a module
+  },
   optimizeDeps: {
     exclude: ['@huggingface/transformers'] // Prevent optimization of transformers.js
   }